@@ -1,22 +1,112 @@
+import { createHash } from 'node:crypto'
+import { Readable } from 'node:stream'
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 
 import {
+  AbortError,
   append,
   batch,
+  broadcast,
+  buffer,
+  byteCounter,
+  byteLengthStrategy,
+  catchError,
+  checkpoint,
+  combineLatest,
   compact,
+  compose,
+  concat,
+  concatBytes,
+  count,
+  debounce,
+  deflate,
+  delay as delayChunks,
+  distinct,
+  distinctUntilChanged,
+  EmptyStreamError,
+  encodeSSE,
+  every,
   filter,
+  filterConcurrent,
+  find,
+  first,
   flatMap,
+  flatMapConcurrent,
   flatten,
+  forEach,
+  fromCallback,
+  fromEventTarget,
   fromIterable,
+  fromNodeReadable,
+  fromPromise,
+  generate,
+  groupBy,
+  gunzip,
+  gzip,
+  hash,
+  inflate,
+  instrument,
   interval,
+  last,
+  lengthPrefixed,
+  LimitExceededError,
+  logProgress,
   map,
+  mapConcurrent,
+  mapSettled,
+  memoryCheckpointStore,
   merge,
+  merger,
+  pairwise,
+  parseCsv,
+  parseJsonArray,
+  parseJsonPath,
+  parseNdjson,
+  parseSSE,
+  partition,
+  pipeline,
+  race,
+  range,
+  rateLimit,
+  rechunk,
   reduce,
+  reduceToPromise,
+  repeat,
+  resumable,
+  route,
   scan,
+  sessionWindow,
+  share,
   skip,
+  skipWhile,
+  some,
+  splitLines,
+  splitOn,
+  StreamOperatorError,
+  stringifyCsv,
+  stringifyNdjson,
   take,
+  takeUntil,
+  takeWhile,
   tap,
-  toArray
+  tapConcurrent,
+  throttle,
+  timeout,
+  TimeoutError,
+  timer,
+  toArray,
+  toBytes,
+  toGroups,
+  toMap,
+  toString,
+  windowCount,
+  windowReduce,
+  windowTime,
+  zip,
+  type OperatorMetrics,
+  type OperatorOptions,
+  type ServerSentEventInit,
+  type TextChunk
 } from '.'
 
 describe('Stream Utils', () => {
@@ -24,6 +114,73 @@ describe('Stream Utils', () => {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
 
+  function source<T>() {
+    let controller!: ReadableStreamDefaultController<T>
+    const stream = new ReadableStream<T>({
+      start(c) {
+        controller = c
+      }
+    })
+    return { stream, controller }
+  }
+
+  function collect<T>(stream: ReadableStream<T>) {
+    const output: T[] = []
+    const done = stream.pipeTo(
+      new WritableStream({
+        write(chunk) {
+          output.push(chunk)
+        }
+      })
+    )
+    done.catch(() => {})
+    return { output, done }
+  }
+
+  function manualClock() {
+    const timers = new Map<number, { at: number; callback: () => void }>()
+    let now = 0
+    let nextId = 0
+
+    return {
+      now: () => now,
+      setTimeout(callback: () => void, ms: number) {
+        timers.set(nextId, { at: now + ms, callback })
+        return nextId++
+      },
+      clearTimeout(handle: unknown) {
+        timers.delete(handle as number)
+      },
+      get pending() {
+        return timers.size
+      },
+      async advance(ms: number) {
+        const target = now + ms
+        await delay(0)
+        while (true) {
+          const [next] = [...timers.entries()]
+            .filter(([, timer]) => timer.at <= target)
+            .sort(([, a], [, b]) => a.at - b.at)
+          if (!next) break
+          const [id, timer] = next
+          timers.delete(id)
+          now = timer.at
+          timer.callback()
+          await delay(0)
+        }
+        now = target
+      }
+    }
+  }
+
+  function cancelSpy<T>(cancelled: unknown[]): ReadableStream<T> {
+    return new ReadableStream<T>({
+      cancel(reason) {
+        cancelled.push(reason)
+      }
+    })
+  }
+
   describe('append', () => {
     it('should append a value to the stream', async () => {
       const stream = fromIterable([1, 2, 3]).pipeThrough(append(4))
@@ -36,6 +193,25 @@ describe('Stream Utils', () => {
       const actual = await toArray(stream)
       expect(actual).toStrictEqual([1])
     })
+
+    it('should take the items as an array with queuing strategies', async () => {
+      const transform = append([4, 5], {
+        writableStrategy: { highWaterMark: 4 }
+      })
+      expect(transform.writable.getWriter().desiredSize).toBe(4)
+
+      const stream = fromIterable([1, 2, 3]).pipeThrough(
+        append([4, 5], { readableStrategy: { highWaterMark: 2 } })
+      )
+      expect(await toArray(stream)).toStrictEqual([1, 2, 3, 4, 5])
+    })
+
+    it('should append an array without queuing strategies as an item', async () => {
+      const stream = fromIterable<unknown>([1]).pipeThrough(
+        append<unknown>([2], { other: true })
+      )
+      expect(await toArray(stream)).toStrictEqual([1, [2], { other: true }])
+    })
   })
 
   describe('batch', () => {
@@ -56,6 +232,415 @@ describe('Stream Utils', () => {
       const actual = await toArray(stream)
       expect(actual).toStrictEqual([[1, 2, 3]])
     })
+
+    describe('with options', () => {
+      beforeEach(() => {
+        vi.useFakeTimers()
+      })
+
+      afterEach(() => {
+        vi.useRealTimers()
+      })
+
+      it('should batch by size', async () => {
+        const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
+          batch({ size: 2 })
+        )
+        const actual = await toArray(stream)
+        expect(actual).toStrictEqual([[1, 2], [3, 4], [5]])
+      })
+
+      it('should flush a partial batch after maxWait', async () => {
+        const { stream, controller } = source<number>()
+        const reader = stream
+          .pipeThrough(batch({ size: 10, maxWait: 100 }))
+          .getReader()
+
+        controller.enqueue(1)
+        controller.enqueue(2)
+        const pending = reader.read()
+        await vi.advanceTimersByTimeAsync(99)
+        controller.enqueue(3)
+        await vi.advanceTimersByTimeAsync(1)
+        expect(await pending).toStrictEqual({ done: false, value: [1, 2, 3] })
+
+        controller.enqueue(4)
+        controller.close()
+        expect(await reader.read()).toStrictEqual({ done: false, value: [4] })
+        expect(await reader.read()).toStrictEqual({
+          done: true,
+          value: undefined
+        })
+      })
+
+      it('should batch by weight', async () => {
+        const stream = fromIterable([
+          'ab',
+          'cd',
+          'efg',
+          'h',
+          'ijklmn'
+        ]).pipeThrough(batch({ maxWeight: 4, weigh: str => str.length }))
+        const actual = await toArray(stream)
+        expect(actual).toStrictEqual([['ab', 'cd'], ['efg', 'h'], ['ijklmn']])
+      })
+
+      it('should clear the timer when cancelled', async () => {
+        const { stream, controller } = source<number>()
+        const reader = stream
+          .pipeThrough(batch({ size: 10, maxWait: 100 }))
+          .getReader()
+
+        controller.enqueue(1)
+        await vi.advanceTimersByTimeAsync(0)
+        await reader.cancel()
+        expect(vi.getTimerCount()).toBe(0)
+      })
+
+      it('should clear the timer when the source errors', async () => {
+        const { stream, controller } = source<number>()
+        const result = toArray(
+          stream.pipeThrough(batch({ size: 10, maxWait: 100 }))
+        )
+
+        controller.enqueue(1)
+        await vi.advanceTimersByTimeAsync(0)
+        controller.error(new Error('boom'))
+        await expect(result).rejects.toThrow('boom')
+        expect(vi.getTimerCount()).toBe(0)
+      })
+    })
+  })
+
+  describe('broadcast', () => {
+    it('should deliver every chunk to every consumer', async () => {
+      const [a, b, c] = broadcast(fromIterable([1, 2, 3]), 3)
+      const actual = await Promise.all([toArray(a), toArray(b), toArray(c)])
+      expect(actual).toStrictEqual([
+        [1, 2, 3],
+        [1, 2, 3],
+        [1, 2, 3]
+      ])
+    })
+
+    it('should block the source on a slow blocking consumer', async () => {
+      let pulled = 0
+      const input = new ReadableStream<number>(
+        {
+          pull(controller) {
+            controller.enqueue(pulled++)
+          }
+        },
+        { highWaterMark: 0 }
+      )
+      const [fast, slow] = broadcast(input, { consumers: 2, bufferSize: 2 })
+      const reader = fast.getReader()
+      for (let i = 0; i < 5; i++) {
+        await Promise.race([reader.read(), delay(10)])
+      }
+      expect(pulled).toBe(2)
+      expect(await slow.getReader().read()).toStrictEqual({
+        done: false,
+        value: 0
+      })
+    })
+
+    it('should drop the oldest chunks for a lagging consumer', async () => {
+      const [fast, lagging] = broadcast(fromIterable([1, 2, 3, 4, 5]), {
+        consumers: [{}, { policy: 'drop-oldest', bufferSize: 2 }]
+      })
+      expect(await toArray(fast)).toStrictEqual([1, 2, 3, 4, 5])
+      expect(await toArray(lagging)).toStrictEqual([4, 5])
+    })
+
+    it('should drop the newest chunks for a lagging consumer', async () => {
+      const [fast, lagging] = broadcast(fromIterable([1, 2, 3, 4, 5]), {
+        consumers: [{}, { policy: 'drop-newest', bufferSize: 2 }]
+      })
+      expect(await toArray(fast)).toStrictEqual([1, 2, 3, 4, 5])
+      expect(await toArray(lagging)).toStrictEqual([1, 2])
+    })
+
+    it('should error a lagging consumer with the error policy', async () => {
+      const [fast, lagging] = broadcast(fromIterable([1, 2, 3]), {
+        consumers: [{}, { policy: 'error', bufferSize: 1 }]
+      })
+      expect(await toArray(fast)).toStrictEqual([1, 2, 3])
+      await expect(toArray(lagging)).rejects.toThrow(LimitExceededError)
+    })
+
+    it('should propagate source errors to every consumer', async () => {
+      const { stream, controller } = source<number>()
+      const [a, b] = broadcast(stream, 2)
+      controller.error(new Error('boom'))
+      await expect(toArray(a)).rejects.toThrow('boom')
+      await expect(toArray(b)).rejects.toThrow('boom')
+    })
+
+    it('should cancel the source only when every consumer cancels', async () => {
+      const cancelled: unknown[] = []
+      const [a, b] = broadcast(cancelSpy<number>(cancelled), 2)
+      await a.cancel()
+      await delay(0)
+      expect(cancelled).toStrictEqual([])
+      await b.cancel()
+      await delay(0)
+      expect(cancelled).toHaveLength(1)
+    })
+  })
+
+  describe('buffer', () => {
+    it('should read ahead of the consumer', async () => {
+      let pulled = 0
+      const input = new ReadableStream<number>(
+        {
+          pull(controller) {
+            controller.enqueue(pulled++)
+          }
+        },
+        { highWaterMark: 0 }
+      )
+      const stream = input.pipeThrough(buffer(5))
+      await delay(10)
+      expect(pulled).toBeGreaterThanOrEqual(5)
+      const reader = stream.getReader()
+      expect(await reader.read()).toStrictEqual({ done: false, value: 0 })
+      await reader.cancel()
+    })
+
+    it('should accept a queuing strategy', async () => {
+      const stream = fromIterable(['ab', new Uint8Array(3)]).pipeThrough(
+        buffer(byteLengthStrategy(4))
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual(['ab', new Uint8Array(3)])
+    })
+  })
+
+  describe('byteCounter', () => {
+    it('should count bytes and report progress', async () => {
+      const progress: unknown[] = []
+      const counter = byteCounter({
+        total: 5,
+        onProgress: p => progress.push(p)
+      })
+      const chunks = [new Uint8Array(2), new Uint8Array(3)]
+      const actual = await toArray(fromIterable(chunks).pipeThrough(counter))
+      expect(actual).toStrictEqual(chunks)
+      expect(await counter.bytes).toBe(5)
+      expect(progress).toStrictEqual([
+        { loaded: 2, total: 5 },
+        { loaded: 5, total: 5 }
+      ])
+    })
+
+    it('should reject the byte count when the stream fails', async () => {
+      const counter = byteCounter()
+      const failing = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.error(new Error('boom'))
+        }
+      })
+      await expect(toArray(failing.pipeThrough(counter))).rejects.toThrow(
+        'boom'
+      )
+      await expect(counter.bytes).rejects.toThrow('boom')
+    })
+  })
+
+  describe('catchError', () => {
+    function failAfter<T>(items: T[], error: unknown): ReadableStream<T> {
+      const queue = [...items]
+      return new ReadableStream<T>({
+        pull(controller) {
+          if (queue.length > 0) {
+            controller.enqueue(queue.shift()!)
+          } else {
+            controller.error(error)
+          }
+        }
+      })
+    }
+
+    it('should replace the rest of the stream with a value', async () => {
+      const errors: unknown[] = []
+      const stream = failAfter([1, 2], new Error('boom')).pipeThrough(
+        catchError(error => {
+          errors.push(error)
+          return -1
+        })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2, -1])
+      expect(errors).toStrictEqual([new Error('boom')])
+    })
+
+    it('should replace the rest of the stream with another stream', async () => {
+      const stream = failAfter([1], new Error('boom')).pipeThrough(
+        catchError(() => fromIterable(['a', 'b']))
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 'a', 'b'])
+    })
+
+    it('should recover from errors in upstream callbacks', async () => {
+      const stream = fromIterable([1, 2, 3])
+        .pipeThrough(
+          map(n => {
+            if (n === 2) throw new Error('boom')
+            return n
+          })
+        )
+        .pipeThrough(catchError(() => 0))
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 0])
+    })
+
+    it('should error when the handler throws', async () => {
+      const stream = failAfter([1], new Error('boom')).pipeThrough(
+        catchError(() => {
+          throw new Error('handler')
+        })
+      )
+      await expect(toArray(stream)).rejects.toThrow('handler')
+    })
+
+    it('should pass chunks through when the source does not error', async () => {
+      const stream = fromIterable([1, 2, 3]).pipeThrough(catchError(() => 0))
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2, 3])
+    })
+
+    it('should abort the signal of the handler when aborted', async () => {
+      const signals: AbortSignal[] = []
+      const abortController = new AbortController()
+      const reader = failAfter([], new Error('boom'))
+        .pipeThrough(
+          catchError(
+            (_, signal) => {
+              signals.push(signal)
+              return new Promise<number>(() => {})
+            },
+            { signal: abortController.signal }
+          )
+        )
+        .getReader()
+      const read = reader.read()
+      await delay(0)
+      expect(signals[0].aborted).toBe(false)
+      abortController.abort(new Error('aborted'))
+      await expect(read).rejects.toThrow('aborted')
+      expect(signals[0].aborted).toBe(true)
+    })
+  })
+
+  describe('checkpoint', () => {
+    function spyStore(initial?: [string, number][]) {
+      const store = memoryCheckpointStore<number>(initial)
+      const saved: number[] = []
+      return {
+        saved,
+        load: store.load,
+        save(key: string, offset: number) {
+          saved.push(offset)
+          return store.save(key, offset)
+        }
+      }
+    }
+
+    it('should save the offset every n chunks and when closing', async () => {
+      const store = spyStore()
+      const stream = fromIterable(['a', 'b', 'c', 'd', 'e']).pipeThrough(
+        checkpoint({ store, key: 'job', every: 2 })
+      )
+      expect(await toArray(stream)).toStrictEqual(['a', 'b', 'c', 'd', 'e'])
+      expect(store.saved).toStrictEqual([2, 4, 5])
+      expect(await store.load('job')).toBe(5)
+    })
+
+    it('should count from the saved offset', async () => {
+      const store = spyStore([['job', 10]])
+      await toArray(
+        fromIterable([1, 2]).pipeThrough(checkpoint({ store, key: 'job' }))
+      )
+      expect(store.saved).toStrictEqual([11, 12])
+    })
+
+    it('should save the offset computed from the chunks', async () => {
+      const store = memoryCheckpointStore<string>()
+      const stream = fromIterable([
+        { cursor: 'x' },
+        { cursor: 'y' }
+      ]).pipeThrough(
+        checkpoint({ store, key: 'job', offset: page => page.cursor })
+      )
+      await toArray(stream)
+      expect(await store.load('job')).toBe('y')
+    })
+
+    it('should not save unsaved offsets when the stream errors', async () => {
+      const store = spyStore()
+      const { stream, controller } = source<number>()
+      const { done } = collect(
+        stream.pipeThrough(checkpoint({ store, key: 'job', every: 2 }))
+      )
+      controller.enqueue(1)
+      controller.enqueue(2)
+      controller.enqueue(3)
+      await delay(0)
+      controller.error(new Error('crash'))
+      await expect(done).rejects.toThrow('crash')
+      expect(store.saved).toStrictEqual([2])
+    })
+
+    it('should reject an invalid frequency', () => {
+      const store = memoryCheckpointStore<number>()
+      expect(() => checkpoint({ store, key: 'job', every: 0 })).toThrow(
+        RangeError
+      )
+    })
+  })
+
+  describe('combineLatest', () => {
+    it('should emit tuples of the latest chunks', async () => {
+      const numbers = new ReadableStream<number>({
+        async start(controller) {
+          controller.enqueue(1)
+          await delay(20)
+          controller.enqueue(2)
+          controller.close()
+        }
+      })
+      const letters = new ReadableStream<string>({
+        async start(controller) {
+          await delay(10)
+          controller.enqueue('a')
+          await delay(20)
+          controller.enqueue('b')
+          controller.close()
+        }
+      })
+      const actual = await toArray(combineLatest(numbers, letters))
+      expect(actual).toStrictEqual([
+        [1, 'a'],
+        [2, 'a'],
+        [2, 'b']
+      ])
+    })
+
+    it('should close when a stream closes without emitting', async () => {
+      const cancelled: unknown[] = []
+      const actual = await toArray(
+        combineLatest(fromIterable([]), cancelSpy<number>(cancelled))
+      )
+      expect(actual).toStrictEqual([])
+      expect(cancelled).toHaveLength(1)
+    })
+
+    it('should handle no streams', async () => {
+      const actual = await toArray(combineLatest())
+      expect(actual).toStrictEqual([])
+    })
   })
 
   describe('compact', () => {
@@ -90,185 +675,2217 @@ describe('Stream Utils', () => {
     })
   })
 
-  describe('filter', () => {
-    it('should filter chunks based on predicate', async () => {
-      const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
-        filter(n => n % 2 === 0)
+  describe('compose', () => {
+    it('should fuse transforms into one', async () => {
+      const evenSquares = compose(
+        filter((n: number) => n % 2 === 0),
+        map(n => n * n),
+        map(n => `${n}`)
       )
-      const actual = await toArray(stream)
-      expect(actual).toStrictEqual([2, 4])
+      const stream = fromIterable([1, 2, 3, 4]).pipeThrough(evenSquares)
+      const actual: string[] = await toArray(stream)
+      expect(actual).toStrictEqual(['4', '16'])
     })
 
-    it('should handle async predicates', async () => {
-      const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
-        filter(async n => {
-          await delay(10)
-          return n % 2 === 0
-        })
-      )
+    it('should pass chunks through when empty', async () => {
+      const stream = fromIterable([1, 2]).pipeThrough(compose())
       const actual = await toArray(stream)
-      expect(actual).toStrictEqual([2, 4])
+      expect(actual).toStrictEqual([1, 2])
     })
   })
 
-  describe('flatMap', () => {
-    it('should transform and flatten chunks', async () => {
-      const stream = fromIterable(['hello', 'world']).pipeThrough(
-        flatMap(str => str.split(''))
+  describe('concat', () => {
+    it('should emit each stream in turn', async () => {
+      const actual = await toArray(
+        concat(fromIterable([1, 2]), fromIterable(['a']), fromIterable([3]))
       )
-      const actual = await toArray(stream)
-      expect(actual).toStrictEqual([
-        'h',
-        'e',
-        'l',
-        'l',
-        'o',
-        'w',
-        'o',
-        'r',
-        'l',
-        'd'
-      ])
+      expect(actual).toStrictEqual([1, 2, 'a', 3])
     })
 
-    it('should handle async transformations', async () => {
-      const stream = fromIterable(['a', 'b']).pipeThrough(
-        flatMap(async str => {
-          await delay(10)
-          return [str, str.toUpperCase()]
-        })
-      )
-      const actual = await toArray(stream)
-      expect(actual).toStrictEqual(['a', 'A', 'b', 'B'])
+    it('should not open a stream before the previous one is done', async () => {
+      const first = new ReadableStream<number>()
+      const second = fromIterable([2])
+      const reader = concat(first, second).getReader()
+
+      reader.read()
+      await delay(10)
+      expect(first.locked).toBe(true)
+      expect(second.locked).toBe(false)
+      await reader.cancel()
     })
 
-    it('should handle empty arrays', async () => {
-      const stream = fromIterable([1, 2, 3]).pipeThrough(flatMap(() => []))
-      const actual = await toArray(stream)
-      expect(actual).toStrictEqual([])
+    it('should cancel the current and remaining streams', async () => {
+      const cancelled: unknown[] = []
+      const reader = concat(
+        fromIterable([1]),
+        cancelSpy<number>(cancelled),
+        cancelSpy<number>(cancelled)
+      ).getReader()
+
+      await reader.read()
+      await reader.cancel('stop')
+      expect(cancelled).toStrictEqual(['stop', 'stop'])
+    })
+
+    it('should cancel the remaining streams on error', async () => {
+      const cancelled: unknown[] = []
+      const failing = new ReadableStream<number>({
+        start(controller) {
+          controller.error(new Error('boom'))
+        }
+      })
+      await expect(
+        toArray(concat(failing, cancelSpy<number>(cancelled)))
+      ).rejects.toThrow('boom')
+      expect(cancelled).toStrictEqual([new Error('boom')])
     })
   })
 
-  describe('flatten', () => {
-    it('should flatten arrays into individual chunks', async () => {
-      const stream = fromIterable([[1, 2], [3, 4], [5]]).pipeThrough(flatten())
-      const actual = await toArray(stream)
-      expect(actual).toStrictEqual([1, 2, 3, 4, 5])
+  describe('concatBytes', () => {
+    it('should merge every chunk into one buffer', async () => {
+      const stream = fromIterable([
+        new Uint8Array([1, 2]),
+        new Uint8Array([]),
+        new Uint8Array([3])
+      ]).pipeThrough(concatBytes())
+      expect(await toArray(stream)).toStrictEqual([new Uint8Array([1, 2, 3])])
     })
 
-    it('should handle empty arrays', async () => {
-      const stream = fromIterable([[], [], []]).pipeThrough(flatten())
-      const actual = await toArray(stream)
-      expect(actual).toStrictEqual([])
+    it('should emit an empty buffer for an empty stream', async () => {
+      const stream = fromIterable<Uint8Array>([]).pipeThrough(concatBytes())
+      expect(await toArray(stream)).toStrictEqual([new Uint8Array(0)])
     })
 
-    it('should handle empty streams', async () => {
-      const stream = fromIterable([]).pipeThrough(flatten())
-      const actual = await toArray(stream)
-      expect(actual).toStrictEqual([])
+    it('should error when exceeding maxBytes', async () => {
+      const stream = fromIterable([
+        new Uint8Array(3),
+        new Uint8Array(3)
+      ]).pipeThrough(concatBytes({ maxBytes: 5 }))
+      await expect(toArray(stream)).rejects.toMatchObject({
+        name: 'LimitExceededError',
+        index: 1,
+        limit: 5
+      })
     })
   })
 
-  describe('fromIterable', () => {
-    it('should create a stream from an array', async () => {
-      const stream = fromIterable([1, 2, 3])
-      const actual = await toArray(stream)
-      expect(actual).toStrictEqual([1, 2, 3])
+  describe('count', () => {
+    it('should count the chunks of a stream', async () => {
+      expect(await count(fromIterable(['a', 'b', 'c']))).toBe(3)
+      expect(await count(fromIterable([]))).toBe(0)
     })
+  })
 
-    it('should create a stream from an async iterable', async () => {
-      async function* generator() {
-        yield 1
-        yield 2
-        yield 3
-      }
+  describe('debounce', () => {
+    it('should emit the last chunk of each burst', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const { output, done } = collect(
+        stream.pipeThrough(debounce(100, { clock }))
+      )
 
-      const stream = fromIterable(generator())
-      const actual = await toArray(stream)
-      expect(actual).toStrictEqual([1, 2, 3])
-    })
+      controller.enqueue(1)
+      await clock.advance(50)
+      controller.enqueue(2)
+      await clock.advance(99)
+      expect(output).toStrictEqual([])
+      await clock.advance(1)
+      expect(output).toStrictEqual([2])
 
-    it('should handle empty iterables', async () => {
-      const stream = fromIterable([])
-      const actual = await toArray(stream)
-      expect(actual).toStrictEqual([])
+      controller.enqueue(3)
+      controller.close()
+      await done
+      expect(output).toStrictEqual([2, 3])
+      expect(clock.pending).toBe(0)
     })
-  })
 
-  describe('interval', () => {
-    beforeEach(() => {
-      vi.useFakeTimers()
+    it('should clear its timer when cancelled', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const reader = stream.pipeThrough(debounce(100, { clock })).getReader()
+
+      controller.enqueue(1)
+      await clock.advance(0)
+      await reader.cancel()
+      expect(clock.pending).toBe(0)
     })
+  })
 
-    afterEach(() => {
-      vi.useRealTimers()
+  describe('deflate', () => {
+    it('should compress bytes that inflate restores', async () => {
+      const bytes = new TextEncoder().encode('hello '.repeat(100))
+      const compressed = await toBytes(
+        fromIterable([bytes]).pipeThrough(deflate())
+      )
+      expect(compressed.byteLength).toBeLessThan(bytes.byteLength)
+      const actual = await toBytes(
+        fromIterable([compressed]).pipeThrough(inflate())
+      )
+      expect(actual).toStrictEqual(bytes)
     })
+  })
 
-    it('should emit values at specified intervals', async () => {
-      const stream = interval(1000).pipeThrough(take(3))
+  describe('delay', () => {
+    it('should shift every chunk in time', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const { output, done } = collect(
+        stream.pipeThrough(delayChunks(100, { clock }))
+      )
 
-      const promise = toArray(stream)
+      controller.enqueue(1)
+      await clock.advance(50)
+      controller.enqueue(2)
+      controller.close()
+      await clock.advance(50)
+      expect(output).toStrictEqual([1])
+      await clock.advance(50)
+      await done
+      expect(output).toStrictEqual([1, 2])
+    })
 
-      // Advance time to get 3 values
-      vi.advanceTimersByTime(3000)
+    it('should clear its timers when cancelled', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const reader = stream.pipeThrough(delayChunks(100, { clock })).getReader()
 
-      const actual = await promise
-      expect(actual).toStrictEqual([0, 1, 2])
+      controller.enqueue(1)
+      controller.enqueue(2)
+      reader.read()
+      await clock.advance(0)
+      expect(clock.pending).toBe(2)
+      await reader.cancel()
+      expect(clock.pending).toBe(0)
     })
   })
 
-  describe('map', () => {
-    it('should transform each chunk', async () => {
-      const stream = fromIterable([1, 2, 3]).pipeThrough(map(n => n * 2))
+  describe('distinct', () => {
+    it('should drop chunks that were already seen', async () => {
+      const stream = fromIterable([1, 2, 1, 3, 2]).pipeThrough(distinct())
       const actual = await toArray(stream)
-      expect(actual).toStrictEqual([2, 4, 6])
+      expect(actual).toStrictEqual([1, 2, 3])
     })
 
-    it('should handle async transformations', async () => {
-      const stream = fromIterable([1, 2, 3]).pipeThrough(
-        map(async n => {
-          await delay(10)
-          return n * 2
-        })
+    it('should compare chunks by key', async () => {
+      const stream = fromIterable(['apple', 'avocado', 'banana']).pipeThrough(
+        distinct(fruit => fruit[0])
       )
       const actual = await toArray(stream)
-      expect(actual).toStrictEqual([2, 4, 6])
+      expect(actual).toStrictEqual(['apple', 'banana'])
     })
-  })
 
-  describe('merge', () => {
-    it('should merge multiple streams', async () => {
-      const stream1 = fromIterable([1, 2, 3])
-      const stream2 = fromIterable([4, 5, 6])
-      const merged = merge(stream1, stream2)
+    it('should forget the least recently seen keys beyond maxKeys', async () => {
+      const stream = fromIterable([1, 2, 1, 3, 2, 1]).pipeThrough(
+        distinct(undefined, { maxKeys: 2 })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2, 3, 2, 1])
+    })
+
+    it('should forget keys after ttlMs', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const { output, done } = collect(
+        stream.pipeThrough(distinct(undefined, { ttlMs: 100, clock }))
+      )
+      controller.enqueue(1)
+      await clock.advance(60)
+      controller.enqueue(1)
+      await clock.advance(60)
+      controller.enqueue(1)
+      await clock.advance(100)
+      controller.enqueue(1)
+      controller.close()
+      await done
+      expect(output).toStrictEqual([1, 1])
+    })
+  })
+
+  describe('distinctUntilChanged', () => {
+    it('should drop consecutive duplicates', async () => {
+      const stream = fromIterable([1, 1, 2, 2, 1]).pipeThrough(
+        distinctUntilChanged()
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2, 1])
+    })
+
+    it('should use a custom comparison', async () => {
+      const stream = fromIterable([
+        { id: 1 },
+        { id: 1 },
+        { id: 2 }
+      ]).pipeThrough(distinctUntilChanged((a, b) => a.id === b.id))
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([{ id: 1 }, { id: 2 }])
+    })
+  })
+
+  describe('encodeSSE', () => {
+    it('should encode each field of an event', async () => {
+      const stream = fromIterable<ServerSentEventInit | string>([
+        'hello',
+        { event: 'update', id: '7', retry: 1000, data: { a: 1 } },
+        { comment: 'keep\nalive', data: 'line 1\nline 2' }
+      ]).pipeThrough(encodeSSE())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        'data: hello\n\n',
+        'event: update\nid: 7\nretry: 1000\ndata: {"a":1}\n\n',
+        ': keep\n: alive\ndata: line 1\ndata: line 2\n\n'
+      ])
+    })
+
+    it('should round trip through parseSSE', async () => {
+      const stream = fromIterable<ServerSentEventInit>([
+        { event: 'a', data: ' padded\n\nmulti', id: '1' },
+        { data: '' }
+      ])
+        .pipeThrough(encodeSSE())
+        .pipeThrough(parseSSE())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        { event: 'a', data: ' padded\n\nmulti', id: '1' },
+        { event: 'message', data: '', id: '1' }
+      ])
+    })
+
+    it('should reject fields that would break the framing', async () => {
+      await expect(
+        toArray(fromIterable([{ event: 'a\nb' }]).pipeThrough(encodeSSE()))
+      ).rejects.toThrow(TypeError)
+      await expect(
+        toArray(fromIterable([{ retry: -1 }]).pipeThrough(encodeSSE()))
+      ).rejects.toThrow(RangeError)
+    })
+
+    it('should reject data that cannot be serialized as JSON', async () => {
+      await expect(
+        toArray(fromIterable([{ data: () => {} }]).pipeThrough(encodeSSE()))
+      ).rejects.toThrow(
+        new TypeError('Cannot serialize data of type function as JSON')
+      )
+      await expect(
+        toArray(fromIterable([{ data: Symbol('a') }]).pipeThrough(encodeSSE()))
+      ).rejects.toThrow(TypeError)
+    })
+
+    it('should send heartbeats while idle', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<string>()
+      const { output, done } = collect(
+        stream.pipeThrough(encodeSSE({ heartbeat: 100, clock }))
+      )
+
+      await clock.advance(100)
+      expect(output).toStrictEqual([':\n\n'])
+      await clock.advance(50)
+      controller.enqueue('a')
+      await clock.advance(99)
+      expect(output).toStrictEqual([':\n\n', 'data: a\n\n'])
+      await clock.advance(1)
+      expect(output).toStrictEqual([':\n\n', 'data: a\n\n', ':\n\n'])
+
+      controller.close()
+      await done
+      expect(clock.pending).toBe(0)
+    })
+  })
+
+  describe('every', () => {
+    it('should check that every chunk satisfies the predicate', async () => {
+      expect(await every(fromIterable([2, 4]), n => n % 2 === 0)).toBe(true)
+      expect(await every(fromIterable([]), () => false)).toBe(true)
+    })
+
+    it('should cancel the source as soon as a chunk fails', async () => {
+      const cancelled: unknown[] = []
+      let pulls = 0
+      const source = new ReadableStream<number>(
+        {
+          pull(controller) {
+            controller.enqueue(pulls++)
+          },
+          cancel(reason) {
+            cancelled.push(reason)
+          }
+        },
+        { highWaterMark: 0 }
+      )
+      expect(await every(source, async n => n < 2)).toBe(false)
+      expect(pulls).toBe(3)
+      expect(cancelled).toHaveLength(1)
+    })
+  })
+
+  describe('filter', () => {
+    it('should filter chunks based on predicate', async () => {
+      const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
+        filter(n => n % 2 === 0)
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([2, 4])
+    })
+
+    it('should handle async predicates', async () => {
+      const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
+        filter(async n => {
+          await delay(10)
+          return n % 2 === 0
+        })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([2, 4])
+    })
+  })
+
+  describe('filterConcurrent', () => {
+    it('should filter chunks based on an async predicate', async () => {
+      const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
+        filterConcurrent(
+          async n => {
+            await delay(10 * (5 - n))
+            return n % 2 === 0
+          },
+          { concurrency: 3 }
+        )
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([2, 4])
+    })
+  })
+
+  describe('find', () => {
+    it('should find the first matching chunk and cancel the source', async () => {
+      const cancelled: unknown[] = []
+      const source = new ReadableStream<number>({
+        start(controller) {
+          ;[1, 2, 3, 4].forEach(n => controller.enqueue(n))
+        },
+        cancel(reason) {
+          cancelled.push(reason)
+        }
+      })
+      expect(await find(source, n => n > 2)).toBe(3)
+      expect(cancelled).toHaveLength(1)
+    })
+
+    it('should resolve to undefined when nothing matches', async () => {
+      expect(await find(fromIterable([1, 2]), n => n > 2)).toBeUndefined()
+    })
+  })
+
+  describe('first', () => {
+    it('should read the first chunk', async () => {
+      expect(await first(fromIterable([1, 2, 3]))).toBe(1)
+      expect(await first(fromIterable([]))).toBeUndefined()
+    })
+  })
+
+  describe('flatMap', () => {
+    it('should read ahead as far as its readable strategy allows', async () => {
+      async function expanded(options?: OperatorOptions<number>) {
+        const expandedChunks: number[] = []
+        const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
+          flatMap((n: number) => {
+            expandedChunks.push(n)
+            return [n, n]
+          }, options)
+        )
+        await delay(10)
+        const seen = [...expandedChunks]
+        expect(await toArray(stream)).toHaveLength(10)
+        return seen
+      }
+
+      expect(await expanded()).toStrictEqual([])
+      expect(
+        await expanded({ readableStrategy: { highWaterMark: 4 } })
+      ).toStrictEqual([1, 2])
+    })
+
+    it('should transform and flatten chunks', async () => {
+      const stream = fromIterable(['hello', 'world']).pipeThrough(
+        flatMap(str => str.split(''))
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        'h',
+        'e',
+        'l',
+        'l',
+        'o',
+        'w',
+        'o',
+        'r',
+        'l',
+        'd'
+      ])
+    })
+
+    it('should handle async transformations', async () => {
+      const stream = fromIterable(['a', 'b']).pipeThrough(
+        flatMap(async str => {
+          await delay(10)
+          return [str, str.toUpperCase()]
+        })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual(['a', 'A', 'b', 'B'])
+    })
+
+    it('should handle empty arrays', async () => {
+      const stream = fromIterable([1, 2, 3]).pipeThrough(flatMap(() => []))
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([])
+    })
+  })
+
+  describe('flatMapConcurrent', () => {
+    it('should transform and flatten chunks in order', async () => {
+      const stream = fromIterable(['a', 'b', 'c']).pipeThrough(
+        flatMapConcurrent(
+          async str => {
+            await delay(str === 'a' ? 30 : 10)
+            return [str, str.toUpperCase()]
+          },
+          { concurrency: 3 }
+        )
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual(['a', 'A', 'b', 'B', 'c', 'C'])
+    })
+  })
+
+  describe('flatten', () => {
+    it('should flatten arrays into individual chunks', async () => {
+      const stream = fromIterable([[1, 2], [3, 4], [5]]).pipeThrough(flatten())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2, 3, 4, 5])
+    })
+
+    it('should handle empty arrays', async () => {
+      const stream = fromIterable([[], [], []]).pipeThrough(flatten())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([])
+    })
+
+    it('should handle empty streams', async () => {
+      const stream = fromIterable([]).pipeThrough(flatten())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([])
+    })
+  })
+
+  describe('forEach', () => {
+    it('should run the function for every chunk', async () => {
+      const seen: number[] = []
+      await forEach(fromIterable([1, 2, 3]), async n => {
+        await delay(5)
+        seen.push(n)
+      })
+      expect(seen).toStrictEqual([1, 2, 3])
+    })
+
+    it('should limit the number of callbacks in flight', async () => {
+      let active = 0
+      let maxActive = 0
+      await forEach(
+        fromIterable([1, 2, 3, 4, 5]),
+        async () => {
+          active++
+          maxActive = Math.max(maxActive, active)
+          await delay(10)
+          active--
+        },
+        { concurrency: 2 }
+      )
+      expect(maxActive).toBe(2)
+    })
+
+    it('should reject and cancel the source on the first rejection', async () => {
+      const cancelled: unknown[] = []
+      let pulls = 0
+      const source = new ReadableStream<number>({
+        pull(controller) {
+          controller.enqueue(pulls++)
+        },
+        cancel(reason) {
+          cancelled.push(reason)
+        }
+      })
+      await expect(
+        forEach(source, n => {
+          if (n === 3) throw new Error('boom')
+        })
+      ).rejects.toThrow('boom')
+      expect(cancelled).toStrictEqual([new Error('boom')])
+    })
+  })
+
+  describe('fromCallback', () => {
+    it('should emit pushed chunks until completed', async () => {
+      const teardown = vi.fn()
+      const stream = fromCallback<number>(({ next, complete }) => {
+        next(1)
+        setTimeout(() => {
+          next(2)
+          complete()
+        }, 5)
+        return teardown
+      })
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2])
+      expect(teardown).toHaveBeenCalledOnce()
+    })
+
+    it('should error the stream', async () => {
+      const stream = fromCallback<number>(({ error }) => {
+        setTimeout(() => error(new Error('boom')), 5)
+      })
+      await expect(toArray(stream)).rejects.toThrow('boom')
+    })
+
+    it('should tear down the source when cancelled', async () => {
+      const teardown = vi.fn()
+      const stream = fromCallback<number>(() => teardown)
+      await stream.cancel()
+      expect(teardown).toHaveBeenCalledOnce()
+    })
+  })
+
+  describe('fromEventTarget', () => {
+    function dispatch(target: EventTarget, ...details: number[]) {
+      details.forEach(detail => {
+        target.dispatchEvent(new CustomEvent('tick', { detail }))
+      })
+    }
+
+    it('should emit dispatched events', async () => {
+      const target = new EventTarget()
+      const reader = fromEventTarget<CustomEvent<number>>(
+        target,
+        'tick'
+      ).getReader()
+
+      dispatch(target, 1, 2)
+      expect((await reader.read()).value?.detail).toBe(1)
+      expect((await reader.read()).value?.detail).toBe(2)
+      await reader.cancel()
+    })
+
+    it('should drop the oldest events when the buffer is full', async () => {
+      const target = new EventTarget()
+      const stream = fromEventTarget<CustomEvent<number>>(target, 'tick', {
+        bufferSize: 2,
+        overflow: 'drop-oldest'
+      })
+
+      dispatch(target, 1, 2, 3)
+      const actual = await toArray(
+        stream.pipeThrough(map(event => event.detail)).pipeThrough(take(2))
+      )
+      expect(actual).toStrictEqual([2, 3])
+    })
+
+    it('should drop the newest events when the buffer is full', async () => {
+      const target = new EventTarget()
+      const stream = fromEventTarget<CustomEvent<number>>(target, 'tick', {
+        bufferSize: 2,
+        overflow: 'drop-newest'
+      })
+
+      dispatch(target, 1, 2, 3)
+      const actual = await toArray(
+        stream.pipeThrough(map(event => event.detail)).pipeThrough(take(2))
+      )
+      expect(actual).toStrictEqual([1, 2])
+    })
+
+    it('should error when the buffer overflows', async () => {
+      const target = new EventTarget()
+      const stream = fromEventTarget(target, 'tick', { bufferSize: 1 })
+
+      dispatch(target, 1, 2)
+      await expect(toArray(stream)).rejects.toThrow(LimitExceededError)
+    })
+
+    it('should stop listening when the signal aborts', async () => {
+      const target = new EventTarget()
+      const removeEventListener = vi.spyOn(target, 'removeEventListener')
+      const abortController = new AbortController()
+      const stream = fromEventTarget(target, 'tick', {
+        signal: abortController.signal
+      })
+
+      abortController.abort(new Error('aborted'))
+      await expect(toArray(stream)).rejects.toThrow('aborted')
+      expect(removeEventListener).toHaveBeenCalledOnce()
+    })
+  })
+
+  describe('fromIterable', () => {
+    it('should create a stream from an array', async () => {
+      const stream = fromIterable([1, 2, 3])
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2, 3])
+    })
+
+    it('should create a stream from a string', async () => {
+      expect(await toArray(fromIterable('abc'))).toStrictEqual(['a', 'b', 'c'])
+      expect(await pipeline('abc').toArray()).toStrictEqual(['a', 'b', 'c'])
+    })
+
+    it('should create a stream from an async iterable', async () => {
+      async function* generator() {
+        yield 1
+        yield 2
+        yield 3
+      }
+
+      const stream = fromIterable(generator())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2, 3])
+    })
+
+    it('should handle empty iterables', async () => {
+      const stream = fromIterable([])
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([])
+    })
+
+    it('should only read the iterable when pulled', async () => {
+      let yielded = 0
+      function* naturals() {
+        while (true) yield yielded++
+      }
+
+      const reader = fromIterable(naturals()).getReader()
+      expect(await reader.read()).toStrictEqual({ done: false, value: 0 })
+      expect(yielded).toBeLessThanOrEqual(2)
+      await reader.cancel()
+    })
+
+    it('should call return() on the iterator when cancelled', async () => {
+      let finalized = false
+      async function* generator() {
+        try {
+          while (true) yield 1
+        } finally {
+          finalized = true
+        }
+      }
+
+      const reader = fromIterable(generator()).getReader()
+      await reader.read()
+      await reader.cancel()
+      expect(finalized).toBe(true)
+    })
+
+    it('should error with the reason and call return() when aborted', async () => {
+      let finalized = false
+      async function* generator() {
+        try {
+          while (true) yield 1
+        } finally {
+          finalized = true
+        }
+      }
+
+      const abortController = new AbortController()
+      const reader = fromIterable(generator(), {
+        signal: abortController.signal
+      }).getReader()
+      await reader.read()
+      abortController.abort(new Error('aborted'))
+      await expect(reader.read()).rejects.toThrow('aborted')
+      expect(finalized).toBe(true)
+    })
+
+    it('should error right away when the signal is already aborted', async () => {
+      const stream = fromIterable([1, 2, 3], {
+        signal: AbortSignal.abort(new Error('aborted'))
+      })
+      await expect(toArray(stream)).rejects.toThrow('aborted')
+    })
+  })
+
+  describe('fromNodeReadable', () => {
+    it('should emit the chunks of a Node.js Readable', async () => {
+      const stream = fromNodeReadable(Readable.from(['a', 'b', 'c']))
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual(['a', 'b', 'c'])
+    })
+
+    it('should destroy the Readable when cancelled', async () => {
+      const readable = new Readable({ read() {} })
+      const reader = fromNodeReadable(readable).getReader()
+      await reader.cancel()
+      expect(readable.destroyed).toBe(true)
+    })
+  })
+
+  describe('fromPromise', () => {
+    it('should emit the resolved value', async () => {
+      const actual = await toArray(fromPromise(Promise.resolve(42)))
+      expect(actual).toStrictEqual([42])
+    })
+
+    it('should error when the promise rejects', async () => {
+      const stream = fromPromise(Promise.reject(new Error('boom')))
+      await expect(toArray(stream)).rejects.toThrow('boom')
+    })
+  })
+
+  describe('generate', () => {
+    it('should emit values until the predicate is satisfied', async () => {
+      const stream = generate(
+        1,
+        n => n * 2,
+        n => n > 100
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2, 4, 8, 16, 32, 64])
+    })
+
+    it('should be infinite without a predicate', async () => {
+      const stream = generate('', s => `${s}a`).pipeThrough(take(3))
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual(['', 'a', 'aa'])
+    })
+  })
+
+  describe('groupBy', () => {
+    it('should emit a sub-stream per key', async () => {
+      const groups = groupBy(
+        fromIterable(['apple', 'avocado', 'banana', 'apricot', 'blueberry']),
+        fruit => fruit[0]
+      )
+      const actual = await toArray(
+        pipeline(groups).mapConcurrent(
+          async ({ key, stream }) => [key, await toArray(stream)],
+          { concurrency: Infinity }
+        ).readable
+      )
+      expect(actual).toStrictEqual([
+        ['a', ['apple', 'avocado', 'apricot']],
+        ['b', ['banana', 'blueberry']]
+      ])
+    })
+
+    it('should close idle groups', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<string>()
+      const groups: { key: number; output: string[] }[] = []
+      const done = forEach(
+        groupBy(stream, word => word.length, { idleTimeout: 100, clock }),
+        ({ key, stream }) => {
+          groups.push({ key, output: collect(stream).output })
+        }
+      )
+      controller.enqueue('a')
+      await clock.advance(50)
+      controller.enqueue('b')
+      await clock.advance(150)
+      controller.enqueue('c')
+      controller.close()
+      await done
+
+      expect(groups).toStrictEqual([
+        { key: 1, output: ['a', 'b'] },
+        { key: 1, output: ['c'] }
+      ])
+      expect(clock.pending).toBe(0)
+    })
+
+    it('should error when exceeding the maximum number of groups', async () => {
+      const groups = groupBy(fromIterable([1, 2, 3]), n => n, { maxGroups: 2 })
+      await expect(
+        forEach(groups, ({ stream }) => void toArray(stream).catch(() => {}))
+      ).rejects.toThrow(LimitExceededError)
+    })
+
+    it('should discard the chunks of cancelled groups', async () => {
+      const groups = groupBy(fromIterable([1, 2, 3, 4, 5]), n => n % 2)
+      const actual: number[] = []
+      await forEach(groups, async ({ key, stream }) => {
+        if (key === 1) {
+          void toArray(stream).then(chunks => actual.push(...chunks))
+        } else {
+          await stream.cancel()
+        }
+      })
+      await delay(0)
+      expect(actual).toStrictEqual([1, 3, 5])
+    })
+  })
+
+  describe('gzip', () => {
+    it('should compress bytes that gunzip restores', async () => {
+      const text = 'line\n'.repeat(1000)
+      const actual = await toString(
+        fromIterable([text])
+          .pipeThrough(new TextEncoderStream())
+          .pipeThrough(gzip())
+          .pipeThrough(gunzip())
+      )
+      expect(actual).toBe(text)
+    })
+
+    it('should error on invalid input', async () => {
+      const stream = fromIterable([new Uint8Array([1, 2, 3])]).pipeThrough(
+        gunzip()
+      )
+      await expect(toArray(stream)).rejects.toThrow()
+    })
+  })
+
+  describe('hash', () => {
+    const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex')
+
+    it('should digest the bytes passing through with SHA-256', async () => {
+      for (const length of [0, 1, 55, 56, 63, 64, 65, 1000]) {
+        const bytes = Uint8Array.from({ length }, (_, i) => i % 251)
+        // Split the bytes into uneven chunks
+        const chunks = [bytes.subarray(0, 7), bytes.subarray(7)]
+        const hasher = hash()
+        const output = await toArray(fromIterable(chunks).pipeThrough(hasher))
+        expect(output).toStrictEqual(chunks)
+        expect(hex(await hasher.digest)).toBe(
+          createHash('sha256').update(bytes).digest('hex')
+        )
+      }
+    })
+
+    it('should digest with the other algorithms of Web Crypto', async () => {
+      const bytes = new TextEncoder().encode('hello world')
+      const hasher = hash('SHA-512')
+      await toArray(
+        fromIterable([bytes.subarray(0, 5), bytes.subarray(5)]).pipeThrough(
+          hasher
+        )
+      )
+      expect(hex(await hasher.digest)).toBe(
+        createHash('sha512').update(bytes).digest('hex')
+      )
+    })
+
+    it('should reject the digest when the stream fails', async () => {
+      const hasher = hash()
+      const failing = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.error(new Error('boom'))
+        }
+      })
+      await expect(toArray(failing.pipeThrough(hasher))).rejects.toThrow('boom')
+      await expect(hasher.digest).rejects.toThrow('boom')
+    })
+  })
+
+  describe('instrument', () => {
+    it('should report chunk counts and end state', async () => {
+      const reports: OperatorMetrics[] = []
+      const stream = fromIterable([1, 2, 3]).pipeThrough(
+        instrument(
+          flatMap((n: number) => [n, n]),
+          { name: 'double', onMetrics: metrics => reports.push(metrics) }
+        )
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 1, 2, 2, 3, 3])
+      expect(reports.at(-1)).toMatchObject({
+        name: 'double',
+        state: 'closed',
+        chunksIn: 3,
+        chunksOut: 6
+      })
+    })
+
+    it('should measure callback time and backpressure waits', async () => {
+      const clock = manualClock()
+      const reports: OperatorMetrics[] = []
+      const input = source<number>()
+      const slow = new TransformStream<number, number>({
+        async transform(chunk, controller) {
+          await new Promise<void>(resolve => clock.setTimeout(resolve, 100))
+          controller.enqueue(chunk)
+        }
+      })
+      const stream = input.stream.pipeThrough(
+        instrument(slow, {
+          name: 'slow',
+          clock,
+          onMetrics: metrics => reports.push(metrics)
+        })
+      )
+      input.controller.enqueue(1)
+      input.controller.enqueue(2)
+      input.controller.close()
+      await clock.advance(150)
+      // The first chunk fills the output queue, so the second one waits for it
+      // to be read
+      const reader = stream.getReader()
+      expect(await reader.read()).toStrictEqual({ done: false, value: 1 })
+      await clock.advance(100)
+      expect(await reader.read()).toStrictEqual({ done: false, value: 2 })
+      expect(await reader.read()).toStrictEqual({
+        done: true,
+        value: undefined
+      })
+      expect(reports.at(-1)).toMatchObject({
+        state: 'closed',
+        chunksIn: 2,
+        chunksOut: 2,
+        callbackMs: 200,
+        backpressureWaits: 1,
+        backpressureMs: 50
+      })
+    })
+
+    it('should only read the transform when its consumer wants more', async () => {
+      const reports: OperatorMetrics[] = []
+      const reader = fromIterable([1])
+        .pipeThrough(
+          instrument(
+            flatMap((n: number) => Array<number>(100).fill(n)),
+            { name: 'expand', onMetrics: metrics => reports.push(metrics) }
+          )
+        )
+        .getReader()
+      await reader.read()
+      await delay(10)
+      expect(reports.at(-1)!.chunksOut).toBeLessThanOrEqual(2)
+      await reader.cancel()
+    })
+
+    it('should record a span per operator', async () => {
+      const events: unknown[] = []
+      const tracer = {
+        startSpan: (name: string) => ({
+          setAttributes: (attributes: object) =>
+            events.push(['attributes', attributes]),
+          recordException: (error: unknown) =>
+            events.push(['exception', error]),
+          setStatus: (status: object) => events.push(['status', status]),
+          end: () => events.push(['end', name])
+        })
+      }
+      const error = new Error('boom')
+      const stream = fromIterable([1]).pipeThrough(
+        instrument(
+          map(() => {
+            throw error
+          }),
+          { name: 'failing', tracer }
+        )
+      )
+      await expect(toArray(stream)).rejects.toThrow('boom')
+      expect(events).toStrictEqual([
+        [
+          'attributes',
+          expect.objectContaining({
+            'stream.operator': 'failing',
+            'stream.state': 'errored',
+            'stream.chunks_in': 1
+          })
+        ],
+        ['exception', expect.objectContaining({ cause: error })],
+        [
+          'status',
+          {
+            code: 2,
+            message: 'StreamOperatorError: map failed on chunk 0: boom'
+          }
+        ],
+        ['end', 'failing']
+      ])
+    })
+
+    it('should be chainable on a Stream', async () => {
+      const reports: OperatorMetrics[] = []
+      const actual = await pipeline([1, 2])
+        .instrument(
+          map((n: number) => n * 2),
+          { name: 'double', onMetrics: metrics => reports.push(metrics) }
+        )
+        .toArray()
+      expect(actual).toStrictEqual([2, 4])
+      expect(reports.at(-1)).toMatchObject({ name: 'double', chunksOut: 2 })
+    })
+
+    it('should report cancellation', async () => {
+      const reports: OperatorMetrics[] = []
+      const stream = fromIterable([1, 2, 3]).pipeThrough(
+        instrument(
+          map((n: number) => n),
+          {
+            name: 'identity',
+            onMetrics: metrics => reports.push(metrics)
+          }
+        )
+      )
+      await first(stream)
+      expect(reports.at(-1)?.state).toBe('cancelled')
+    })
+  })
+
+  describe('interval', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should emit values at specified intervals', async () => {
+      const stream = interval(1000).pipeThrough(take(3))
+
+      const promise = toArray(stream)
+
+      // Advance time to get 3 values
+      vi.advanceTimersByTime(3000)
+
+      const actual = await promise
+      expect(actual).toStrictEqual([0, 1, 2])
+    })
+
+    it('should clear its timer when cancelled', async () => {
+      const reader = interval(1000).getReader()
+      vi.advanceTimersByTime(2000)
+      expect(await reader.read()).toStrictEqual({ done: false, value: 0 })
+      expect(await reader.read()).toStrictEqual({ done: false, value: 1 })
+      await reader.cancel()
+      expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it('should error and clear its timer when aborted', async () => {
+      const abortController = new AbortController()
+      const { output, done } = collect(
+        interval(1000, { signal: abortController.signal })
+      )
+      await vi.advanceTimersByTimeAsync(1000)
+      abortController.abort(new Error('aborted'))
+      await expect(done).rejects.toThrow('aborted')
+      expect(output).toStrictEqual([0])
+      expect(vi.getTimerCount()).toBe(0)
+    })
+  })
+
+  describe('last', () => {
+    it('should read the last chunk', async () => {
+      expect(await last(fromIterable([1, 2, 3]))).toBe(3)
+      expect(await last(fromIterable([]))).toBeUndefined()
+    })
+  })
+
+  describe('lengthPrefixed', () => {
+    it('should frame chunks and split them back', async () => {
+      const { frame, deframe } = lengthPrefixed()
+      const messages = [
+        new Uint8Array([1, 2, 3]),
+        new Uint8Array([]),
+        new Uint8Array(300)
+      ]
+      const framed = await toBytes(fromIterable(messages).pipeThrough(frame()))
+      expect(framed.subarray(0, 4)).toStrictEqual(new Uint8Array([0, 0, 0, 3]))
+
+      // Deliver the frames one byte at a time
+      const actual = await toArray(
+        fromIterable(
+          Array.from(framed, byte => new Uint8Array([byte]))
+        ).pipeThrough(deframe())
+      )
+      expect(actual).toStrictEqual(messages)
+    })
+
+    it('should frame and deframe a Stream', async () => {
+      const messages = [new Uint8Array([1, 2]), new Uint8Array([3])]
+      const actual = await pipeline(messages)
+        .frame({ headerBytes: 1 })
+        .deframe({ headerBytes: 1 })
+        .toArray()
+      expect(actual).toStrictEqual(messages)
+    })
+
+    it('should write the header with the given size and byte order', async () => {
+      const { frame } = lengthPrefixed({ headerBytes: 2, endianness: 'little' })
+      const actual = await toBytes(
+        fromIterable([new Uint8Array([9])]).pipeThrough(frame())
+      )
+      expect(actual).toStrictEqual(new Uint8Array([1, 0, 9]))
+    })
+
+    it('should error on frames larger than the limit', async () => {
+      const { frame } = lengthPrefixed({ headerBytes: 1 })
+      await expect(
+        toArray(fromIterable([new Uint8Array(256)]).pipeThrough(frame()))
+      ).rejects.toBeInstanceOf(LimitExceededError)
+
+      const limited = lengthPrefixed({ maxFrameLength: 2 })
+      await expect(
+        toArray(
+          fromIterable([new Uint8Array([0, 0, 0, 3])]).pipeThrough(
+            limited.deframe()
+          )
+        )
+      ).rejects.toMatchObject({ limit: 2 })
+    })
+
+    it('should error when the stream ends in the middle of a frame', async () => {
+      const { deframe } = lengthPrefixed()
+      const stream = fromIterable([
+        new Uint8Array([0, 0, 0, 2, 1])
+      ]).pipeThrough(deframe())
+      await expect(toArray(stream)).rejects.toThrow(
+        'Stream ended in the middle of frame 0'
+      )
+    })
+  })
+
+  describe('logProgress', () => {
+    it('should log every few chunks and when done', async () => {
+      const clock = manualClock()
+      const messages: string[] = []
+      const { stream, controller } = source<number>()
+      const { output, done } = collect(
+        stream.pipeThrough(
+          logProgress(2, { name: 'rows', log: m => messages.push(m), clock })
+        )
+      )
+      controller.enqueue(1)
+      await clock.advance(500)
+      controller.enqueue(2)
+      controller.enqueue(3)
+      await clock.advance(500)
+      controller.close()
+      await done
+      expect(output).toStrictEqual([1, 2, 3])
+      expect(messages).toStrictEqual([
+        'rows: 2 chunks (4/s)',
+        'rows: 3 chunks (3/s), done'
+      ])
+    })
+  })
+
+  describe('map', () => {
+    it('should transform each chunk', async () => {
+      const stream = fromIterable([1, 2, 3]).pipeThrough(map(n => n * 2))
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([2, 4, 6])
+    })
+
+    it('should error the output and cancel the input when aborted', async () => {
+      const cancelled: unknown[] = []
+      const abortController = new AbortController()
+      const reader = cancelSpy<number>(cancelled)
+        .pipeThrough(map(n => n * 2, { signal: abortController.signal }))
+        .getReader()
+      const read = reader.read()
+      abortController.abort(new Error('aborted'))
+      await expect(read).rejects.toThrow('aborted')
+      await delay(0)
+      expect(cancelled).toStrictEqual([new Error('aborted')])
+    })
+
+    it('should abort the signal of the callback when cancelled', async () => {
+      const signals: AbortSignal[] = []
+      const { stream, controller } = source<number>()
+      const reader = stream
+        .pipeThrough(
+          map((_, signal) => {
+            signals.push(signal)
+            return new Promise<number>(() => {})
+          })
+        )
+        .getReader()
+      controller.enqueue(1)
+      const read = reader.read()
+      await delay(0)
+      expect(signals[0].aborted).toBe(false)
+      await reader.cancel('stop')
+      expect(await read).toStrictEqual({ done: true, value: undefined })
+      expect(signals[0].aborted).toBe(true)
+      expect(signals[0].reason).toBeInstanceOf(AbortError)
+      expect(signals[0].reason).toMatchObject({
+        name: 'AbortError',
+        operator: 'map',
+        cause: 'stop'
+      })
+    })
+
+    it('should handle async transformations', async () => {
+      const stream = fromIterable([1, 2, 3]).pipeThrough(
+        map(async n => {
+          await delay(10)
+          return n * 2
+        })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([2, 4, 6])
+    })
+    describe('with retry', () => {
+      it('should retry a failing callback', async () => {
+        let calls = 0
+        const stream = fromIterable([1, 2]).pipeThrough(
+          map(
+            n => {
+              calls++
+              if (calls % 2 === 1) throw new Error('flaky')
+              return n * 2
+            },
+            { retry: { attempts: 2, delay: 1 } }
+          )
+        )
+        const actual = await toArray(stream)
+        expect(actual).toStrictEqual([2, 4])
+        expect(calls).toBe(4)
+      })
+
+      it('should give up after the last attempt', async () => {
+        let calls = 0
+        const stream = fromIterable([1]).pipeThrough(
+          map(
+            () => {
+              calls++
+              throw new Error('down')
+            },
+            { retry: { attempts: 3, delay: 1 } }
+          )
+        )
+        await expect(toArray(stream)).rejects.toThrow('down')
+        expect(calls).toBe(3)
+      })
+
+      it('should only retry when shouldRetry allows it', async () => {
+        let calls = 0
+        const stream = fromIterable([1]).pipeThrough(
+          filter(
+            () => {
+              calls++
+              throw new TypeError('fatal')
+            },
+            {
+              retry: {
+                attempts: 3,
+                delay: 1,
+                shouldRetry: error => !(error instanceof TypeError)
+              }
+            }
+          )
+        )
+        await expect(toArray(stream)).rejects.toThrow('fatal')
+        expect(calls).toBe(1)
+      })
+
+      it('should back off exponentially', async () => {
+        vi.useFakeTimers()
+        try {
+          const calls: number[] = []
+          const stream = fromIterable([1]).pipeThrough(
+            tap(
+              () => {
+                calls.push(Date.now())
+                if (calls.length < 3) throw new Error('flaky')
+              },
+              { retry: { attempts: 3, delay: 100, jitter: false } }
+            )
+          )
+          const result = toArray(stream)
+          await vi.runAllTimersAsync()
+          expect(await result).toStrictEqual([1])
+          expect(calls[1] - calls[0]).toBe(100)
+          expect(calls[2] - calls[1]).toBe(200)
+        } finally {
+          vi.useRealTimers()
+        }
+      })
+
+      it('should stop retrying when the signal is aborted', async () => {
+        const abortController = new AbortController()
+        const stream = fromIterable([1]).pipeThrough(
+          map(
+            () => {
+              abortController.abort(new Error('aborted'))
+              throw new Error('flaky')
+            },
+            {
+              retry: {
+                attempts: 3,
+                delay: 1000,
+                signal: abortController.signal
+              }
+            }
+          )
+        )
+        await expect(toArray(stream)).rejects.toThrow('aborted')
+      })
+
+      it('should stop retrying when cancelled despite a retry signal', async () => {
+        let calls = 0
+        const reader = fromIterable([1])
+          .pipeThrough(
+            map(
+              () => {
+                calls++
+                throw new Error('flaky')
+              },
+              {
+                retry: {
+                  attempts: 3,
+                  delay: 20,
+                  signal: new AbortController().signal
+                }
+              }
+            )
+          )
+          .getReader()
+        const read = reader.read()
+        await delay(0)
+        await reader.cancel('stop')
+        expect(await read).toStrictEqual({ done: true, value: undefined })
+        await delay(50)
+        expect(calls).toBe(1)
+      })
+
+      it('should retry concurrent callbacks', async () => {
+        const failed = new Set<number>()
+        const stream = fromIterable([1, 2, 3]).pipeThrough(
+          mapConcurrent(
+            n => {
+              if (!failed.has(n)) {
+                failed.add(n)
+                throw new Error('flaky')
+              }
+              return n
+            },
+            { concurrency: 2, retry: { attempts: 2, delay: 1 } }
+          )
+        )
+        const actual = await toArray(stream)
+        expect(actual).toStrictEqual([1, 2, 3])
+      })
+    })
+    it('should apply the given queuing strategies', async () => {
+      const mapped: number[] = []
+      const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
+        map(
+          (n: number) => {
+            mapped.push(n)
+            return n
+          },
+          { readableStrategy: { highWaterMark: 3 } }
+        )
+      )
+      await delay(10)
+      expect(mapped).toStrictEqual([1, 2, 3])
+      expect(await toArray(stream)).toStrictEqual([1, 2, 3, 4, 5])
+    })
+  })
+
+  describe('mapConcurrent', () => {
+    it('should limit the number of callbacks in flight', async () => {
+      let active = 0
+      let maxActive = 0
+      const stream = fromIterable([1, 2, 3, 4, 5, 6]).pipeThrough(
+        mapConcurrent(
+          async n => {
+            active++
+            maxActive = Math.max(maxActive, active)
+            await delay(10)
+            active--
+            return n * 2
+          },
+          { concurrency: 2 }
+        )
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([2, 4, 6, 8, 10, 12])
+      expect(maxActive).toBe(2)
+    })
+
+    it('should abort the callbacks in flight when one fails', async () => {
+      const signals: AbortSignal[] = []
+      const stream = fromIterable([1, 2]).pipeThrough(
+        mapConcurrent(
+          async (n, signal) => {
+            signals.push(signal)
+            if (n === 2) throw new Error('failed')
+            return new Promise<number>(() => {})
+          },
+          { concurrency: 2 }
+        )
+      )
+      await expect(toArray(stream)).rejects.toThrow('failed')
+      expect(signals[0].aborted).toBe(true)
+      expect(signals[0].reason).toMatchObject({
+        operator: 'mapConcurrent',
+        index: 1,
+        cause: new Error('failed')
+      })
+    })
+
+    it('should preserve input order by default', async () => {
+      const stream = fromIterable([30, 10, 20]).pipeThrough(
+        mapConcurrent(
+          async ms => {
+            await delay(ms)
+            return ms
+          },
+          { concurrency: 3 }
+        )
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([30, 10, 20])
+    })
+
+    it('should not start callbacks past a slow chunk when ordered', async () => {
+      const started: number[] = []
+      let release!: () => void
+      const reader = fromIterable([1, 2, 3, 4, 5, 6])
+        .pipeThrough(
+          mapConcurrent(
+            async n => {
+              started.push(n)
+              if (n === 1) await new Promise<void>(r => (release = r))
+              return n
+            },
+            { concurrency: 2 }
+          )
+        )
+        .getReader()
+      const read = reader.read()
+      await delay(10)
+      expect(started).toStrictEqual([1, 2])
+      release()
+      expect(await read).toStrictEqual({ done: false, value: 1 })
+      await reader.cancel()
+    })
+
+    it('should emit results as they settle when unordered', async () => {
+      const stream = fromIterable([30, 10, 20]).pipeThrough(
+        mapConcurrent(
+          async ms => {
+            await delay(ms)
+            return ms
+          },
+          { concurrency: 3, ordered: false }
+        )
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([10, 20, 30])
+    })
+
+    it('should error the stream on the first rejection', async () => {
+      const stream = fromIterable([1, 2, 3]).pipeThrough(
+        mapConcurrent(
+          async n => {
+            await delay(10)
+            if (n === 2) throw new Error('boom')
+            return n
+          },
+          { concurrency: 2 }
+        )
+      )
+      await expect(toArray(stream)).rejects.toThrow('boom')
+    })
+
+    it('should reject invalid concurrency', () => {
+      expect(() => mapConcurrent(x => x, { concurrency: 0 })).toThrow(
+        RangeError
+      )
+    })
+  })
+
+  describe('mapSettled', () => {
+    it('should emit the outcome of each call', async () => {
+      const error = new Error('odd')
+      const stream = fromIterable([1, 2, 3]).pipeThrough(
+        mapSettled(async n => {
+          if (n % 2 === 1) throw error
+          return n * 10
+        })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        { status: 'rejected', reason: error, chunk: 1 },
+        { status: 'fulfilled', value: 20, chunk: 2 },
+        { status: 'rejected', reason: error, chunk: 3 }
+      ])
+    })
+  })
+
+  describe('merge', () => {
+    it('should merge multiple streams', async () => {
+      const stream1 = fromIterable([1, 2, 3])
+      const stream2 = fromIterable([4, 5, 6])
+      const merged = merge(stream1, stream2)
+      const actual = await toArray(merged)
+
+      // Since merge doesn't guarantee order, we just check that all items are present
+      expect(actual).toHaveLength(6)
+      expect(actual).toStrictEqual(expect.arrayContaining([1, 2, 3, 4, 5, 6]))
+    })
+
+    it('should handle empty streams', async () => {
+      const stream1 = fromIterable([])
+      const stream2 = fromIterable([1, 2, 3])
+      const merged = merge(stream1, stream2)
+      const actual = await toArray(merged)
+      expect(actual).toStrictEqual([1, 2, 3])
+    })
+
+    it('should handle all empty streams', async () => {
+      const stream1 = fromIterable([])
+      const stream2 = fromIterable([])
+      const merged = merge(stream1, stream2)
       const actual = await toArray(merged)
+      expect(actual).toStrictEqual([])
+    })
+
+    it('should only read inputs when pulled', async () => {
+      let pulls = 0
+      const infinite = new ReadableStream<number>(
+        {
+          pull(controller) {
+            controller.enqueue(pulls++)
+          }
+        },
+        { highWaterMark: 0 }
+      )
+      const reader = merge(infinite).getReader()
+
+      expect(await reader.read()).toStrictEqual({ done: false, value: 0 })
+      await delay(10)
+      expect(pulls).toBeLessThanOrEqual(2)
+      await reader.cancel()
+    })
+
+    it('should cancel every input when cancelled', async () => {
+      const cancelled: unknown[] = []
+      const inputs = [1, 2].map(
+        () =>
+          new ReadableStream<number>({
+            cancel(reason) {
+              cancelled.push(reason)
+            }
+          })
+      )
+      const reader = merge(...inputs).getReader()
+
+      reader.read()
+      await reader.cancel('stop')
+      expect(cancelled).toStrictEqual(['stop', 'stop'])
+    })
+
+    it('should error and cancel the other inputs on the first error', async () => {
+      let cancelled: unknown
+      const failing = new ReadableStream<number>({
+        start(controller) {
+          controller.error(new Error('boom'))
+        }
+      })
+      const pending = new ReadableStream<number>({
+        cancel(reason) {
+          cancelled = reason
+        }
+      })
+
+      await expect(toArray(merge(pending, failing))).rejects.toThrow(
+        'merge failed on input 1: boom'
+      )
+      expect(cancelled).toMatchObject({ input: 1, cause: new Error('boom') })
+      expect(pending.locked).toBe(false)
+    })
+
+    it('should collect errors when asked to', async () => {
+      const failing = (message: string) =>
+        new ReadableStream<number>({
+          start(controller) {
+            controller.error(new Error(message))
+          }
+        })
+      const merged = merge([failing('a'), fromIterable([1, 2]), failing('b')], {
+        errors: 'collect'
+      })
+      const reader = merged.getReader()
+      const values: number[] = []
+
+      const error = await (async () => {
+        try {
+          while (true) {
+            const { done, value } = await reader.read()
+            if (done) return undefined
+            values.push(value)
+          }
+        } catch (error) {
+          return error
+        }
+      })()
+
+      expect(values).toStrictEqual([1, 2])
+      expect(error).toBeInstanceOf(AggregateError)
+      expect((error as AggregateError).errors).toMatchObject([
+        { operator: 'merge', input: 0, cause: new Error('a') },
+        { operator: 'merge', input: 2, cause: new Error('b') }
+      ])
+    })
+  })
+
+  describe('merger', () => {
+    it('should merge streams added over time', async () => {
+      const { readable, add, close } = merger<number>()
+      const result = toArray(readable)
+
+      add(fromIterable([1, 2]))
+      await delay(10)
+      add(fromIterable([3]))
+      close()
+
+      const actual = await result
+      expect(actual).toHaveLength(3)
+      expect(actual).toStrictEqual(expect.arrayContaining([1, 2, 3]))
+    })
+
+    it('should stay open until closed', async () => {
+      const { readable, add, close } = merger<number>()
+      let settled = false
+      const result = toArray(readable).then(values => {
+        settled = true
+        return values
+      })
+
+      add(fromIterable([1]))
+      await delay(10)
+      expect(settled).toBe(false)
+
+      close()
+      expect(await result).toStrictEqual([1])
+    })
+
+    it('should not accept streams once closed', () => {
+      const { add, close } = merger<number>()
+      close()
+      expect(() => add(fromIterable([1]))).toThrow(TypeError)
+    })
+  })
+
+  describe('pairwise', () => {
+    it('should emit pairs of consecutive chunks', async () => {
+      const stream = fromIterable([1, 2, 3]).pipeThrough(pairwise())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        [1, 2],
+        [2, 3]
+      ])
+    })
+
+    it('should emit nothing for a single chunk', async () => {
+      const stream = fromIterable([1]).pipeThrough(pairwise())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([])
+    })
+  })
 
-      // Since merge doesn't guarantee order, we just check that all items are present
-      expect(actual).toHaveLength(6)
-      expect(actual).toStrictEqual(expect.arrayContaining([1, 2, 3, 4, 5, 6]))
+  describe('parseCsv', () => {
+    it('should parse rows into arrays of fields', async () => {
+      const stream = fromIterable(['a,b,c\r\n1,2', ',3\n']).pipeThrough(
+        parseCsv()
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        ['a', 'b', 'c'],
+        ['1', '2', '3']
+      ])
     })
 
-    it('should handle empty streams', async () => {
-      const stream1 = fromIterable([])
-      const stream2 = fromIterable([1, 2, 3])
-      const merged = merge(stream1, stream2)
-      const actual = await toArray(merged)
-      expect(actual).toStrictEqual([1, 2, 3])
+    it('should handle quoted fields across chunk boundaries', async () => {
+      const stream = fromIterable([
+        'name,quote\n"Ada, Countess","She said ""',
+        'hi""\r',
+        '\nand left"\n""\n'
+      ]).pipeThrough(parseCsv())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        ['name', 'quote'],
+        ['Ada, Countess', 'She said "hi"\r\nand left'],
+        ['']
+      ])
     })
 
-    it('should handle all empty streams', async () => {
-      const stream1 = fromIterable([])
-      const stream2 = fromIterable([])
-      const merged = merge(stream1, stream2)
-      const actual = await toArray(merged)
+    it('should map rows to objects using the header row', async () => {
+      const stream = fromIterable(['name;age\n\nAda;36\nAlan']).pipeThrough(
+        parseCsv({ delimiter: ';', headers: true })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        { name: 'Ada', age: '36' },
+        { name: 'Alan', age: '' }
+      ])
+    })
+
+    it('should map rows to objects using the given columns', async () => {
+      const stream = fromIterable(['Ada,36\n']).pipeThrough(
+        parseCsv({ headers: ['name', 'age'] })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([{ name: 'Ada', age: '36' }])
+    })
+
+    it('should decode bytes', async () => {
+      const bytes = new TextEncoder().encode('é,ü\n')
+      const stream = fromIterable([
+        bytes.slice(0, 1),
+        bytes.slice(1)
+      ]).pipeThrough(parseCsv())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([['é', 'ü']])
+    })
+
+    it('should error on an unterminated quoted field', async () => {
+      const stream = fromIterable(['a,"b\n']).pipeThrough(parseCsv())
+      await expect(toArray(stream)).rejects.toThrow(SyntaxError)
+    })
+  })
+
+  describe('parseJsonArray', () => {
+    it('should emit each element as soon as it is complete', async () => {
+      const { stream, controller } = source<string>()
+      const { output, done } = collect(stream.pipeThrough(parseJsonArray()))
+
+      controller.enqueue(' [ {"a": [1, "]"]}, 2')
+      await delay(0)
+      expect(output).toStrictEqual([{ a: [1, ']'] }])
+      controller.enqueue('3, "\\u00e9\\"", true, null ]\n')
+      await delay(0)
+      expect(output).toStrictEqual([{ a: [1, ']'] }, 23, 'é"', true, null])
+      controller.close()
+      await done
+    })
+
+    it('should parse a document split at every character', async () => {
+      const value = [{ a: 'x\ny', b: [-1.5e3, false, {}] }, [], 'é', 0]
+      const bytes = new TextEncoder().encode(JSON.stringify(value, null, 2))
+      const stream = fromIterable([...bytes].map(byte => Uint8Array.of(byte)))
+      expect(await toArray(stream.pipeThrough(parseJsonArray()))).toStrictEqual(
+        value
+      )
+    })
+
+    it('should report the position of invalid JSON', async () => {
+      const parse = (...chunks: string[]) =>
+        toArray(fromIterable(chunks).pipeThrough(parseJsonArray()))
+      await expect(parse('[1,\n  2,', ' }]')).rejects.toThrow(
+        'Unexpected "}" in JSON at line 2, column 6'
+      )
+      await expect(parse('[01]')).rejects.toThrow(
+        'Invalid number 01 in JSON at line 1, column 2'
+      )
+      await expect(parse('[tru]')).rejects.toThrow(SyntaxError)
+      await expect(parse('[1] 2')).rejects.toThrow(SyntaxError)
+      await expect(parse('[1, 2')).rejects.toThrow(
+        'Unexpected end of JSON at line 1, column 6'
+      )
+    })
+
+    it('should enforce the depth and length limits', async () => {
+      const deep = fromIterable(['[[[1]]]']).pipeThrough(
+        parseJsonArray({ maxDepth: 2 })
+      )
+      await expect(toArray(deep)).rejects.toThrow(LimitExceededError)
+
+      const { stream, controller } = source<string>()
+      const { output, done } = collect(
+        stream.pipeThrough(parseJsonArray({ maxLength: 5 }))
+      )
+      controller.enqueue('["abc", "abcdef')
+      await expect(done).rejects.toMatchObject({ limit: 5 })
+      expect(output).toStrictEqual(['abc'])
+    })
+  })
+
+  describe('parseJsonPath', () => {
+    it('should emit the values selected by the path', async () => {
+      const json = JSON.stringify({
+        items: [{ id: 1, tags: ['a'] }, { id: 2 }],
+        'odd key': { items: [{ id: 3 }] }
+      })
+      const parse = (path: string) =>
+        toArray(fromIterable([json]).pipeThrough(parseJsonPath(path)))
+
+      expect(await parse('$.items[*].id')).toStrictEqual([1, 2])
+      expect(await parse('$.items[1]')).toStrictEqual([{ id: 2 }])
+      expect(await parse("$['odd key'].items[*]")).toStrictEqual([{ id: 3 }])
+      expect(await parse('$.*.items[0].id')).toStrictEqual([3])
+      expect(await parse('$.missing')).toStrictEqual([])
+      expect(await parse('$')).toStrictEqual([JSON.parse(json)])
+    })
+
+    it('should reject an invalid path', () => {
+      expect(() => parseJsonPath('items')).toThrow(SyntaxError)
+      expect(() => parseJsonPath('$.items[')).toThrow(
+        'Invalid JSONPath at position 7: $.items['
+      )
+    })
+  })
+
+  describe('parseNdjson', () => {
+    it('should parse each line as JSON', async () => {
+      const stream = fromIterable(['{"a":1}\n{"a"', ':2}\n\n[3]']).pipeThrough(
+        parseNdjson()
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([{ a: 1 }, { a: 2 }, [3]])
+    })
+
+    it('should report the line of invalid JSON', async () => {
+      const stream = fromIterable(['1\n{\n']).pipeThrough(parseNdjson())
+      await expect(toArray(stream)).rejects.toThrow(/line 2/)
+    })
+  })
+
+  describe('parseSSE', () => {
+    it('should parse events split across chunks', async () => {
+      const text =
+        '\uFEFFevent: add\ndata: 1\n\n: comment\ndata:2\ndata\ndata:  3\n\n'
+      const stream = fromIterable([...text]).pipeThrough(parseSSE())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        { event: 'add', data: '1', id: '' },
+        { event: 'message', data: '2\n\n 3', id: '' }
+      ])
+    })
+
+    it('should accept every line ending', async () => {
+      const stream = fromIterable([
+        'data: a\r',
+        '\ndata: b\r',
+        '\r',
+        'data: c\r\n\r\n'
+      ]).pipeThrough(parseSSE())
+      const actual = await toArray(stream)
+      expect(actual.map(({ data }) => data)).toStrictEqual(['a\nb', 'c'])
+    })
+
+    it('should decode bytes', async () => {
+      const bytes = new TextEncoder().encode('data: café\n\n')
+      const stream = fromIterable([
+        bytes.subarray(0, 10),
+        bytes.subarray(10)
+      ]).pipeThrough(parseSSE())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([{ event: 'message', data: 'café', id: '' }])
+    })
+
+    it('should only skip one BOM', async () => {
+      const bytes = new TextEncoder().encode('\uFEFF\uFEFFdata: a\n\n')
+      const stream = fromIterable([bytes]).pipeThrough(parseSSE())
+      const actual = await toArray(stream)
+      // The second BOM is part of an unknown field name
       expect(actual).toStrictEqual([])
+      const strings = fromIterable(['\uFEFFdata: a\n\n']).pipeThrough(
+        parseSSE()
+      )
+      expect(await toArray(strings)).toStrictEqual([
+        { event: 'message', data: 'a', id: '' }
+      ])
+    })
+
+    it('should error when an event exceeds maxEventLength', async () => {
+      const parse = (chunks: string[]) =>
+        toArray(
+          fromIterable(chunks).pipeThrough(parseSSE({ maxEventLength: 10 }))
+        )
+      expect(await parse(['data: 12\n\ndata: 34\n\n'])).toHaveLength(2)
+      await expect(parse(['data: 1\ndata: 2\n\n'])).rejects.toBeInstanceOf(
+        LimitExceededError
+      )
+      const error = await parse([
+        'data: ok\n\n',
+        'data: ',
+        'x'.repeat(20)
+      ]).catch(error => error)
+      expect(error).toMatchObject({
+        operator: 'parseSSE',
+        index: 1,
+        limit: 10
+      })
+    })
+
+    it('should keep the last event ID and retry', async () => {
+      const stream = fromIterable([
+        'id: 1\nretry: 500\ndata: a\n\n',
+        'id: 2\0\nretry: 1.5\ndata: b\n\n',
+        'id\ndata: c\n\n'
+      ]).pipeThrough(parseSSE())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        { event: 'message', data: 'a', id: '1', retry: 500 },
+        { event: 'message', data: 'b', id: '1', retry: 500 },
+        { event: 'message', data: 'c', id: '', retry: 500 }
+      ])
+    })
+
+    it('should skip events without data and unterminated events', async () => {
+      const stream = fromIterable([
+        'event: empty\n\nunknown: field\n\ndata: last'
+      ]).pipeThrough(parseSSE())
+      expect(await toArray(stream)).toStrictEqual([])
+    })
+  })
+
+  describe('partition', () => {
+    it('should split chunks by a predicate', async () => {
+      const [even, odd] = partition(
+        fromIterable([1, 2, 3, 4, 5]),
+        n => n % 2 === 0
+      )
+      const actual = await Promise.all([toArray(even), toArray(odd)])
+      expect(actual).toStrictEqual([
+        [2, 4],
+        [1, 3, 5]
+      ])
+    })
+
+    it('should not read ahead of a branch that is not read', async () => {
+      let pulled = 0
+      const input = new ReadableStream<number>(
+        {
+          pull(controller) {
+            controller.enqueue(pulled++)
+          }
+        },
+        { highWaterMark: 0 }
+      )
+      const [, rest] = partition(input, n => n === 0)
+      void rest.getReader().read()
+      await delay(10)
+      expect(pulled).toBe(1)
+    })
+
+    it('should keep reading into the remaining branch after a cancel', async () => {
+      const [even, odd] = partition(
+        fromIterable([1, 2, 3, 4]),
+        n => n % 2 === 0
+      )
+      await even.cancel()
+      const actual = await toArray(odd)
+      expect(actual).toStrictEqual([1, 3])
+    })
+
+    it('should cancel the source once both branches are cancelled', async () => {
+      const cancelled: unknown[] = []
+      const [even, odd] = partition(cancelSpy<number>(cancelled), n => n > 0)
+      await even.cancel()
+      expect(cancelled).toStrictEqual([])
+      await odd.cancel('done')
+      await delay(0)
+      expect(cancelled).toStrictEqual(['done'])
+    })
+
+    it('should error both branches when the predicate throws', async () => {
+      const [even, odd] = partition(fromIterable([1]), () => {
+        throw new Error('boom')
+      })
+      await expect(toArray(even)).rejects.toThrow('boom')
+      await expect(toArray(odd)).rejects.toThrow('boom')
+    })
+
+    it('should error both branches and cancel the source when aborted', async () => {
+      const cancelled: unknown[] = []
+      const abortController = new AbortController()
+      const [even, odd] = partition(cancelSpy<number>(cancelled), n => n > 0, {
+        signal: abortController.signal
+      })
+      const read = even.getReader().read()
+      abortController.abort(new Error('aborted'))
+      await expect(read).rejects.toThrow('aborted')
+      await expect(toArray(odd)).rejects.toThrow('aborted')
+      await delay(0)
+      expect(cancelled).toStrictEqual([new Error('aborted')])
+    })
+  })
+
+  describe('pipeline', () => {
+    it('should chain operators', async () => {
+      const actual = await pipeline([1, 2, 3, 4, 5, 6])
+        .filter(n => n % 2 === 0)
+        .map(n => [n, n * 10])
+        .flatten()
+        .batch(2)
+        .toArray()
+      expect(actual).toStrictEqual([
+        [2, 20],
+        [4, 40],
+        [6, 60]
+      ])
+    })
+
+    it('should wrap a ReadableStream and unwrap it back', async () => {
+      const stream = pipeline(fromIterable(['a\nb', '\nc']))
+        .splitLines()
+        .zip(fromIterable([1, 2, 3]))
+        .toReadableStream()
+      const actual: [string, number][] = await toArray(stream)
+      expect(actual).toStrictEqual([
+        ['a', 1],
+        ['b', 2],
+        ['c', 3]
+      ])
+    })
+
+    it('should be async iterable', async () => {
+      const actual: number[] = []
+      for await (const n of pipeline(fromIterable([1, 2, 3])).map(n => n + 1)) {
+        actual.push(n)
+      }
+      expect(actual).toStrictEqual([2, 3, 4])
+    })
+
+    it('should cancel the stream when iteration stops early', async () => {
+      const cancelled: unknown[] = []
+      const source = new ReadableStream<number>({
+        pull(controller) {
+          controller.enqueue(1)
+        },
+        cancel(reason) {
+          cancelled.push(reason)
+        }
+      })
+      for await (const n of pipeline(source)) {
+        expect(n).toBe(1)
+        break
+      }
+      expect(cancelled).toHaveLength(1)
+    })
+
+    it('should collect text and bytes', async () => {
+      const encoder = new TextEncoder()
+      const text = await pipeline(['a', encoder.encode('b')]).text()
+      expect(text).toBe('ab')
+      expect(String(pipeline(['a']))).toBe('[object Object]')
+      const bytes = await pipeline([encoder.encode('ab'), encoder.encode('c')])
+        .map(chunk => chunk.reverse())
+        .toBytes()
+      expect(new TextDecoder().decode(bytes)).toBe('bac')
+    })
+  })
+
+  describe('race', () => {
+    it('should mirror the first stream to emit and cancel the others', async () => {
+      const cancelled: unknown[] = []
+      const slow = new ReadableStream<string>({
+        async start(controller) {
+          await delay(50)
+          controller.enqueue('slow')
+        },
+        cancel(reason) {
+          cancelled.push(reason)
+        }
+      })
+      const actual = await toArray(race(slow, fromIterable([1, 2, 3])))
+      expect(actual).toStrictEqual([1, 2, 3])
+      expect(cancelled).toHaveLength(1)
+    })
+
+    it('should cancel every stream when cancelled before a winner', async () => {
+      const cancelled: unknown[] = []
+      const reader = race(
+        cancelSpy<number>(cancelled),
+        cancelSpy<number>(cancelled)
+      ).getReader()
+
+      await reader.cancel('stop')
+      expect(cancelled).toStrictEqual(['stop', 'stop'])
+    })
+  })
+
+  describe('range', () => {
+    it('should emit evenly spaced numbers', async () => {
+      expect(await toArray(range(0, 5))).toStrictEqual([0, 1, 2, 3, 4])
+      expect(await toArray(range(0, 10, 3))).toStrictEqual([0, 3, 6, 9])
+      expect(await toArray(range(5, 0, -2))).toStrictEqual([5, 3, 1])
+      expect(await toArray(range(3, 3))).toStrictEqual([])
+    })
+
+    it('should reject a zero step', () => {
+      expect(() => range(0, 5, 0)).toThrow(RangeError)
+    })
+  })
+
+  describe('rateLimit', () => {
+    it('should delay chunks over the limit', async () => {
+      const clock = manualClock()
+      const { output, done } = collect(
+        fromIterable([1, 2, 3, 4, 5]).pipeThrough(
+          rateLimit({ count: 2, per: 1000, clock })
+        )
+      )
+
+      await clock.advance(0)
+      expect(output).toStrictEqual([1, 2])
+      await clock.advance(500)
+      expect(output).toStrictEqual([1, 2, 3])
+      await clock.advance(1000)
+      await done
+      expect(output).toStrictEqual([1, 2, 3, 4, 5])
+    })
+
+    it('should clear its timer when cancelled', async () => {
+      const clock = manualClock()
+      const reader = fromIterable([1, 2, 3])
+        .pipeThrough(rateLimit({ count: 1, per: 1000, clock }))
+        .getReader()
+
+      await reader.read()
+      reader.read()
+      await clock.advance(0)
+      expect(clock.pending).toBe(1)
+      await reader.cancel()
+      expect(clock.pending).toBe(0)
+    })
+
+    it('should reject invalid limits', () => {
+      expect(() => rateLimit({ count: 0, per: 1000 })).toThrow(RangeError)
+    })
+  })
+
+  describe('rechunk', () => {
+    it('should queue its input by bytes', async () => {
+      const writer = rechunk(4).writable.getWriter()
+      void writer.write(new Uint8Array(1000))
+      expect(writer.desiredSize).toBe(65_536 - 1000)
+
+      const small = rechunk(4, {
+        writableStrategy: byteLengthStrategy(10)
+      }).writable.getWriter()
+      void small.write(new Uint8Array(4))
+      expect(small.desiredSize).toBe(6)
+    })
+
+    it('should emit chunks of a fixed size', async () => {
+      const stream = fromIterable([
+        new Uint8Array([1, 2, 3]),
+        new Uint8Array([4]),
+        new Uint8Array([5, 6, 7, 8, 9])
+      ]).pipeThrough(rechunk(4))
+      expect(await toArray(stream)).toStrictEqual([
+        new Uint8Array([1, 2, 3, 4]),
+        new Uint8Array([5, 6, 7, 8]),
+        new Uint8Array([9])
+      ])
+    })
+
+    it('should reject an invalid size', () => {
+      expect(() => rechunk(0)).toThrow(RangeError)
+      expect(() => rechunk(1.5)).toThrow(RangeError)
     })
   })
 
   describe('reduce', () => {
     it('should reduce stream to a single value', async () => {
       const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
-        reduce((a, b) => a + b, 0)
+        reduce((a, b) => a + b, { initialValue: 0 })
       )
       const [sum] = await toArray(stream)
       expect(sum).toBe(15)
@@ -276,27 +2893,336 @@ describe('Stream Utils', () => {
 
     it('should handle async reducer functions', async () => {
       const stream = fromIterable([1, 2, 3]).pipeThrough(
-        reduce(async (a, b) => {
-          await delay(10)
-          return a + b
-        }, 0)
+        reduce(
+          async (a, b) => {
+            await delay(10)
+            return a + b
+          },
+          { initialValue: 0 }
+        )
       )
       const [sum] = await toArray(stream)
       expect(sum).toBe(6)
     })
 
-    it('should handle empty streams', async () => {
+    it('should emit the initial value for empty streams', async () => {
       const stream = fromIterable<number>([]).pipeThrough(
-        reduce((a, b) => a + b, 0)
+        reduce((a, b) => a + b, { initialValue: 0 })
+      )
+      const result = await toArray(stream)
+      expect(result).toStrictEqual([0])
+    })
+
+    it('should keep undefined and null accumulators', async () => {
+      const stream = fromIterable([1, 2, 3]).pipeThrough(
+        reduce<number, number | null | undefined>(
+          (accumulator, n) => (n === 2 ? null : n === 3 ? accumulator : n),
+          { initialValue: 0 }
+        )
+      )
+      const result = await toArray(stream)
+      expect(result).toStrictEqual([null])
+    })
+
+    it('should start from the first chunk without an initial value', async () => {
+      const stream = fromIterable([1, 2, 3]).pipeThrough(
+        reduce((a: number, b: number) => a * b)
       )
       const result = await toArray(stream)
-      expect(result).toStrictEqual([])
+      expect(result).toStrictEqual([6])
+    })
+
+    it('should error on empty streams without an initial value', async () => {
+      const stream = fromIterable<number>([]).pipeThrough(
+        reduce((a: number, b: number) => a + b)
+      )
+      await expect(toArray(stream)).rejects.toThrow(EmptyStreamError)
+    })
+
+    it('should retry and abort without an initial value', async () => {
+      let failures = 0
+      const retried = fromIterable([1, 2, 3]).pipeThrough(
+        reduce(
+          (a: number, b: number) => {
+            if (b === 2 && failures++ === 0) throw new Error('flaky')
+            return a + b
+          },
+          { retry: { attempts: 2, delay: 1 } }
+        )
+      )
+      expect(await toArray(retried)).toStrictEqual([6])
+
+      const controller = new AbortController()
+      const aborted = source<number>()
+      const result = toArray(
+        aborted.stream.pipeThrough(
+          reduce((a: number, b: number) => a + b, {
+            signal: controller.signal
+          })
+        )
+      )
+      aborted.controller.enqueue(1)
+      controller.abort(new Error('stop'))
+      await expect(result).rejects.toThrow('stop')
+    })
+
+    it('should apply the given queuing strategies without an initial value', () => {
+      const transform = reduce((a: number, b: number) => a + b, {
+        writableStrategy: { highWaterMark: 4 }
+      })
+      expect(transform.writable.getWriter().desiredSize).toBe(4)
+    })
+
+    it('should handle single value streams', async () => {
+      const stream = fromIterable([42]).pipeThrough(
+        reduce((a, b) => a + b, { initialValue: 0 })
+      )
+      const [result] = await toArray(stream)
+      expect(result).toBe(42)
+    })
+  })
+
+  describe('reduceToPromise', () => {
+    it('should resolve with the reduced value', async () => {
+      const sum = await reduceToPromise(
+        fromIterable([1, 2, 3]),
+        (a, b) => a + b,
+        { initialValue: 0 }
+      )
+      expect(sum).toBe(6)
+    })
+
+    it('should resolve with the initial value for empty streams', async () => {
+      const sum = await reduceToPromise(
+        fromIterable<number>([]),
+        (a, b) => a + b,
+        { initialValue: 0 }
+      )
+      expect(sum).toBe(0)
+    })
+
+    it('should reject on empty streams without an initial value', async () => {
+      await expect(
+        reduceToPromise(fromIterable<number>([]), (a, b) => a + b)
+      ).rejects.toThrow(EmptyStreamError)
+    })
+
+    it('should take options without an initial value', async () => {
+      await expect(
+        reduceToPromise(fromIterable([1, 2, 3]), (a, b) => a + b, {
+          maxItems: 2
+        })
+      ).rejects.toBeInstanceOf(LimitExceededError)
+      const product = await reduceToPromise(
+        fromIterable([2, 3]),
+        (a, b) => a * b,
+        { maxItems: 2 }
+      )
+      expect(product).toBe(6)
+    })
+
+    it('should cancel the stream when aborted', async () => {
+      const cancelled: unknown[] = []
+      const controller = new AbortController()
+      const result = reduceToPromise(
+        cancelSpy<number>(cancelled),
+        (a, b) => a + b,
+        { initialValue: 0, signal: controller.signal }
+      )
+      controller.abort(new Error('stop'))
+      await expect(result).rejects.toThrow('stop')
+      expect(cancelled).toHaveLength(1)
+    })
+  })
+
+  describe('repeat', () => {
+    it('should emit the same value several times', async () => {
+      expect(await toArray(repeat('a', 3))).toStrictEqual(['a', 'a', 'a'])
+      expect(await toArray(repeat('a', 0))).toStrictEqual([])
+    })
+
+    it('should be infinite without a count', async () => {
+      const actual = await toArray(repeat(1).pipeThrough(take(4)))
+      expect(actual).toStrictEqual([1, 1, 1, 1])
+    })
+  })
+
+  describe('resumable', () => {
+    const rows = [0, 1, 2, 3, 4, 5]
+
+    it('should resume from the last saved offset after a crash', async () => {
+      const store = memoryCheckpointStore<number>()
+      const processed: number[] = []
+      const run = (crashAt?: number) =>
+        resumable(offset => fromIterable(rows.slice(offset ?? 0)), {
+          store,
+          key: 'job'
+        })
+          .pipeThrough(
+            tap(row => {
+              if (row === crashAt) throw new Error('crash')
+              processed.push(row)
+            })
+          )
+          .pipeThrough(checkpoint({ store, key: 'job', every: 2 }))
+          .pipeTo(new WritableStream())
+
+      await expect(run(3)).rejects.toThrow('crash')
+      expect(processed).toStrictEqual([0, 1, 2])
+      expect(await store.load('job')).toBe(2)
+
+      await run()
+      // Row 2 was processed but not saved, so it is processed again
+      expect(processed).toStrictEqual([0, 1, 2, 2, 3, 4, 5])
+      expect(await store.load('job')).toBe(6)
+    })
+
+    it('should reopen the source when it errors', async () => {
+      const store = memoryCheckpointStore<number>()
+      const offsets: (number | undefined)[] = []
+      const rowStream = resumable(
+        offset => {
+          offsets.push(offset)
+          const remaining = rows.slice(offset ?? 0)
+          return offsets.length > 1
+            ? remaining
+            : fromIterable(remaining).pipeThrough(
+                map(row => {
+                  if (row === 3) throw new Error('connection reset')
+                  return row
+                })
+              )
+        },
+        { store, key: 'job', retry: { attempts: 2, delay: 0 } }
+      )
+      const stream = rowStream.pipeThrough(
+        checkpoint({ store, key: 'job', source: rowStream })
+      )
+
+      const actual = await toArray(stream)
+      expect(offsets).toHaveLength(2)
+      expect(offsets[0]).toBeUndefined()
+      expect(actual).toStrictEqual([0, 1, 2, ...rows.slice(offsets[1])])
+      expect(new Set(actual)).toStrictEqual(new Set(rows))
+    })
+
+    it('should never save an offset past the processed rows when retrying', async () => {
+      const rows = Array.from({ length: 30 }, (_, i) => i)
+      const processed = new Set<number>()
+      const saved: number[] = []
+      const memory = memoryCheckpointStore<number>()
+      const store = {
+        load: memory.load,
+        save(key: string, offset: number) {
+          expect(rows.slice(0, offset).every(row => processed.has(row))).toBe(
+            true
+          )
+          saved.push(offset)
+          return memory.save(key, offset)
+        }
+      }
+      let failed = false
+      const rowStream = resumable(
+        offset =>
+          fromIterable(rows.slice(offset ?? 0)).pipeThrough(
+            map(row => {
+              if (row === 15 && !failed) {
+                failed = true
+                throw new Error('connection reset')
+              }
+              return row
+            })
+          ),
+        { store, key: 'job', retry: { attempts: 2, delay: 0 } }
+      )
+      const stream = rowStream
+        .pipeThrough(tap(row => void processed.add(row)))
+        .pipeThrough(
+          checkpoint({ store, key: 'job', every: 10, source: rowStream })
+        )
+
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([...rows.slice(0, 15), ...rows.slice(10)])
+      expect(saved).toStrictEqual([10, 15, 25, 30])
+    })
+
+    it('should only follow the resumed offsets of its own source', async () => {
+      const store = memoryCheckpointStore<number>([['job', 4]])
+      let failed = false
+      const earlier = resumable(
+        offset =>
+          fromIterable(rows.slice(offset ?? 0)).pipeThrough(
+            map(row => {
+              if (!failed) {
+                failed = true
+                throw new Error('connection reset')
+              }
+              return row
+            })
+          ),
+        { store, key: 'job', retry: { attempts: 2, delay: 0 } }
+      )
+      expect(await toArray(earlier)).toStrictEqual([4, 5])
+      expect(earlier.openedBefore(0)).toStrictEqual({ offset: 4, emitted: 0 })
+
+      await store.save('job', 1)
+      await toArray(
+        fromIterable([1, 2]).pipeThrough(checkpoint({ store, key: 'job' }))
+      )
+      expect(await store.load('job')).toBe(3)
+    })
+
+    it('should cancel the source when cancelled', async () => {
+      const cancelled: unknown[] = []
+      const store = memoryCheckpointStore<number>()
+      const reader = resumable(() => cancelSpy<number>(cancelled), {
+        store,
+        key: 'job'
+      }).getReader()
+      const read = reader.read()
+      await delay(0)
+      await reader.cancel('stop')
+      await read
+      expect(cancelled).toStrictEqual(['stop'])
+    })
+  })
+
+  describe('route', () => {
+    it('should send each chunk to the first matching route', async () => {
+      const { small, even } = route(fromIterable([1, 2, 3, 4, 10, 11]), {
+        small: n => n < 3,
+        even: n => n % 2 === 0
+      })
+      const actual = await Promise.all([toArray(small), toArray(even)])
+      expect(actual).toStrictEqual([
+        [1, 2],
+        [4, 10]
+      ])
     })
 
-    it('should handle single value streams', async () => {
-      const stream = fromIterable([42]).pipeThrough(reduce((a, b) => a + b, 0))
-      const [result] = await toArray(stream)
-      expect(result).toBe(42)
+    it('should abort the signal of a pending predicate once every route is cancelled', async () => {
+      const signals: AbortSignal[] = []
+      const { stream, controller } = source<number>()
+      const { a, b } = route(stream, {
+        a: (_, signal) => {
+          signals.push(signal)
+          return new Promise<boolean>(() => {})
+        },
+        b: () => true
+      })
+      const reader = a.getReader()
+      void reader.read()
+      controller.enqueue(1)
+      await delay(0)
+      expect(signals[0].aborted).toBe(false)
+      await reader.cancel()
+      await b.cancel('done')
+      expect(signals[0].aborted).toBe(true)
+      expect(signals[0].reason).toMatchObject({
+        name: 'AbortError',
+        operator: 'route',
+        cause: 'done'
+      })
     })
   })
 
@@ -343,6 +3269,173 @@ describe('Stream Utils', () => {
       const actual = await toArray(stream)
       expect(actual).toStrictEqual([1, 2, 3])
     })
+
+    it('should abort the signal of the scanner when cancelled', async () => {
+      const signals: AbortSignal[] = []
+      const { stream, controller } = source<number>()
+      const reader = stream
+        .pipeThrough(
+          scan((_, __, signal) => {
+            signals.push(signal)
+            return new Promise<number>(() => {})
+          }, 0)
+        )
+        .getReader()
+      controller.enqueue(1)
+      const read = reader.read()
+      await delay(0)
+      await reader.cancel('stop')
+      expect(await read).toStrictEqual({ done: true, value: undefined })
+      expect(signals[0].reason).toMatchObject({
+        name: 'AbortError',
+        operator: 'scan',
+        cause: 'stop'
+      })
+    })
+
+    it('should retry a failed scanner', async () => {
+      let calls = 0
+      const stream = fromIterable([1, 2]).pipeThrough(
+        scan(
+          (acc, x) => {
+            if (calls++ === 0) throw new Error('flaky')
+            return acc + x
+          },
+          0,
+          { retry: { attempts: 2, delay: 0 } }
+        )
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 3])
+    })
+  })
+
+  describe('sessionWindow', () => {
+    it('should emit sessions after a gap in processing time', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const { output, done } = collect(
+        stream.pipeThrough(sessionWindow(100, undefined, { clock }))
+      )
+      controller.enqueue(1)
+      await clock.advance(50)
+      controller.enqueue(2)
+      await clock.advance(100)
+      expect(output).toStrictEqual([[1, 2]])
+      controller.enqueue(3)
+      controller.close()
+      await done
+      expect(output).toStrictEqual([[1, 2], [3]])
+      expect(clock.pending).toBe(0)
+    })
+
+    it('should clear its timers when keyFn throws', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const { done } = collect(
+        stream.pipeThrough(
+          sessionWindow(
+            100,
+            n => {
+              if (n === 2) throw new Error('boom')
+              return n
+            },
+            { clock }
+          )
+        )
+      )
+      controller.enqueue(1)
+      await delay(0)
+      controller.enqueue(2)
+      await expect(done).rejects.toThrow('boom')
+      expect(clock.pending).toBe(0)
+      await clock.advance(200)
+    })
+
+    it('should clear its timers when aborted', async () => {
+      const clock = manualClock()
+      const abortController = new AbortController()
+      const { stream, controller } = source<number>()
+      const { output, done } = collect(
+        stream.pipeThrough(
+          sessionWindow(100, undefined, {
+            clock,
+            signal: abortController.signal
+          })
+        )
+      )
+      controller.enqueue(1)
+      await delay(0)
+      abortController.abort(new Error('aborted'))
+      await expect(done).rejects.toThrow('aborted')
+      expect(clock.pending).toBe(0)
+      await clock.advance(200)
+      expect(output).toStrictEqual([])
+    })
+
+    it('should track sessions per key in event time', async () => {
+      const clicks = [
+        { user: 'a', time: 0 },
+        { user: 'b', time: 10 },
+        { user: 'a', time: 50 },
+        { user: 'a', time: 200 },
+        { user: 'b', time: 300 }
+      ]
+      const stream = fromIterable(clicks).pipeThrough(
+        sessionWindow(100, click => click.user, {
+          timestamp: click => click.time
+        })
+      )
+      const actual = await toArray(stream)
+      expect(
+        actual.map(session => session.map(click => click.time))
+      ).toStrictEqual([[0, 50], [10], [200], [300]])
+    })
+
+    it('should drop chunks of sessions that were already emitted', async () => {
+      const stream = fromIterable([0, 500, 10, 520]).pipeThrough(
+        sessionWindow(100, undefined, { timestamp: time => time })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([[0], [500, 520]])
+    })
+  })
+
+  describe('share', () => {
+    it('should replay the latest chunks to late subscribers', async () => {
+      const { stream, controller } = source<number>()
+      const shared = share(stream, { replay: 2 })
+      const early = collect(shared.subscribe())
+      controller.enqueue(1)
+      controller.enqueue(2)
+      controller.enqueue(3)
+      await delay(0)
+      const late = collect(shared.subscribe())
+      controller.enqueue(4)
+      controller.close()
+      await Promise.all([early.done, late.done])
+      expect(early.output).toStrictEqual([1, 2, 3, 4])
+      expect(late.output).toStrictEqual([2, 3, 4])
+    })
+
+    it('should replay to subscribers after the source closed', async () => {
+      const shared = share(fromIterable([1, 2, 3]), { replay: 1 })
+      expect(await toArray(shared.subscribe())).toStrictEqual([1, 2, 3])
+      expect(await toArray(shared.subscribe())).toStrictEqual([3])
+    })
+
+    it('should cancel the source when the last subscriber leaves', async () => {
+      const cancelled: unknown[] = []
+      const shared = share(cancelSpy<number>(cancelled))
+      const a = shared.subscribe()
+      const b = shared.subscribe()
+      await a.cancel()
+      await delay(0)
+      expect(cancelled).toStrictEqual([])
+      await b.cancel('done')
+      await delay(0)
+      expect(cancelled).toStrictEqual(['done'])
+    })
   })
 
   describe('skip', () => {
@@ -365,6 +3458,227 @@ describe('Stream Utils', () => {
     })
   })
 
+  describe('skipWhile', () => {
+    it('should skip chunks until the predicate fails', async () => {
+      const stream = fromIterable([1, 2, 3, 1]).pipeThrough(
+        skipWhile(n => n < 3)
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([3, 1])
+    })
+  })
+
+  describe('some', () => {
+    it('should check whether any chunk satisfies the predicate', async () => {
+      expect(await some(fromIterable([1, 2, 3]), n => n === 2)).toBe(true)
+      expect(await some(fromIterable([1, 3]), n => n === 2)).toBe(false)
+    })
+  })
+
+  describe('splitLines', () => {
+    it('should split text into lines across chunks', async () => {
+      const stream = fromIterable([
+        'a\r',
+        '\nb\n',
+        '',
+        'c',
+        'd\n\ne'
+      ]).pipeThrough(splitLines())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual(['a', 'b', 'cd', '', 'e'])
+    })
+
+    it('should decode multi-byte characters split across chunks', async () => {
+      const bytes = new TextEncoder().encode('héllo\nwörld\n')
+      const stream = fromIterable([
+        bytes.slice(0, 2),
+        bytes.slice(2, 9),
+        bytes.slice(9)
+      ]).pipeThrough(splitLines())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual(['héllo', 'wörld'])
+    })
+
+    it('should join a line spanning many chunks', async () => {
+      const chunks = [...Array.from({ length: 100 }, () => 'ab'), '\r', '\nc']
+      const lines = await toArray(
+        fromIterable(chunks).pipeThrough(splitLines())
+      )
+      expect(lines).toStrictEqual(['ab'.repeat(100), 'c'])
+    })
+
+    it('should error when a line exceeds maxLineLength', async () => {
+      const limited = (chunks: string[]) =>
+        toArray(
+          fromIterable(chunks).pipeThrough(splitLines({ maxLineLength: 3 }))
+        )
+      expect(await limited(['abc\r', '\nde'])).toStrictEqual(['abc', 'de'])
+      const error = await limited(['ab\nab', 'cd']).catch(error => error)
+      expect(error).toBeInstanceOf(LimitExceededError)
+      expect(error).toMatchObject({
+        operator: 'splitLines',
+        index: 1,
+        limit: 3
+      })
+      await expect(limited(['abcd\n'])).rejects.toThrow(LimitExceededError)
+    })
+  })
+
+  describe('splitOn', () => {
+    it('should split on delimiters spanning chunk boundaries', async () => {
+      const encoder = new TextEncoder()
+      const stream = fromIterable(
+        ['a--b-', '-c-', '-', 'd'].map(text => encoder.encode(text))
+      ).pipeThrough(splitOn('--'))
+      const actual = await toArray(stream)
+      expect(
+        actual.map(bytes => new TextDecoder().decode(bytes))
+      ).toStrictEqual(['a', 'b', 'c', 'd'])
+    })
+
+    it('should emit empty segments and skip a trailing delimiter', async () => {
+      const stream = fromIterable([
+        new Uint8Array([1, 0, 0, 2, 0])
+      ]).pipeThrough(splitOn(new Uint8Array([0])))
+      expect(await toArray(stream)).toStrictEqual([
+        new Uint8Array([1]),
+        new Uint8Array([]),
+        new Uint8Array([2])
+      ])
+    })
+
+    it('should join a segment from many single bytes', async () => {
+      const text = 'ab<>>c<><>d<>'
+      const stream = fromIterable(
+        [...new TextEncoder().encode(text)].map(byte => new Uint8Array([byte]))
+      ).pipeThrough(splitOn('<>'))
+      const actual = await toArray(stream)
+      expect(
+        actual.map(bytes => new TextDecoder().decode(bytes))
+      ).toStrictEqual(['ab', '>c', '', 'd'])
+    })
+
+    it('should error when a segment exceeds maxSegmentLength', async () => {
+      const encoder = new TextEncoder()
+      const limited = (chunks: string[]) =>
+        toArray(
+          fromIterable(chunks.map(text => encoder.encode(text))).pipeThrough(
+            splitOn('--', { maxSegmentLength: 3 })
+          )
+        )
+      expect(await limited(['abc-', '-de'])).toHaveLength(2)
+      const error = await limited(['ab--abc', 'd']).catch(error => error)
+      expect(error).toBeInstanceOf(LimitExceededError)
+      expect(error).toMatchObject({ operator: 'splitOn', index: 1, limit: 3 })
+    })
+
+    it('should reject an empty delimiter', () => {
+      expect(() => splitOn('')).toThrow(RangeError)
+    })
+  })
+
+  describe('StreamOperatorError', () => {
+    it('should tell which operator and chunk failed', async () => {
+      const cause = new Error('boom')
+      const stream = fromIterable([1, 2, 3]).pipeThrough(
+        map(n => {
+          if (n === 2) throw cause
+          return n
+        })
+      )
+      const error = await toArray(stream).catch(error => error)
+      expect(error).toBeInstanceOf(StreamOperatorError)
+      expect(error.message).toBe('map failed on chunk 1: boom')
+      expect(error).toMatchObject({ operator: 'map', index: 1, cause })
+      expect('chunk' in error).toBe(false)
+    })
+
+    it('should attach the chunk when asked to', async () => {
+      const stream = fromIterable([{ id: 1 }, { id: 2 }]).pipeThrough(
+        filter(
+          ({ id }) => {
+            if (id === 2) throw new Error('boom')
+            return true
+          },
+          { includeChunk: true }
+        )
+      )
+      await expect(toArray(stream)).rejects.toMatchObject({
+        operator: 'filter',
+        index: 1,
+        chunk: { id: 2 }
+      })
+    })
+
+    it('should keep the original error of mapSettled', async () => {
+      const cause = new Error('boom')
+      const actual = await toArray(
+        fromIterable([1]).pipeThrough(
+          mapSettled(() => {
+            throw cause
+          })
+        )
+      )
+      expect(actual).toStrictEqual([
+        { status: 'rejected', reason: cause, chunk: 1 }
+      ])
+    })
+
+    it('should be the base of the errors of the operators', async () => {
+      await expect(
+        toArray(fromIterable([1, 2]), { maxItems: 1 })
+      ).rejects.toMatchObject({ operator: 'toArray', index: 1, limit: 1 })
+      await expect(
+        toArray(fromIterable([1, 2]), { maxItems: 1 })
+      ).rejects.toBeInstanceOf(LimitExceededError)
+      await expect(
+        toArray(fromIterable([]).pipeThrough(reduce((a: number, b) => a + b)))
+      ).rejects.toBeInstanceOf(StreamOperatorError)
+      expect(new AbortError('aborted', { operator: 'map' }).name).toBe(
+        'AbortError'
+      )
+    })
+  })
+
+  describe('stringifyCsv', () => {
+    it('should write arrays as rows, quoting when needed', async () => {
+      const stream = fromIterable([
+        ['a', 'b,c'],
+        ['say "hi"', null]
+      ]).pipeThrough(stringifyCsv())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual(['a,"b,c"\r\n', '"say ""hi""",\r\n'])
+    })
+
+    it('should write objects after a header row', async () => {
+      const stream = fromIterable([
+        { name: 'Ada', age: 36 },
+        { age: 41, name: 'Alan' }
+      ]).pipeThrough(stringifyCsv({ delimiter: ';', newline: '\n' }))
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual(['name;age\n', 'Ada;36\n', 'Alan;41\n'])
+    })
+
+    it('should round-trip through parseCsv', async () => {
+      const rows = [['1', 'multi\nline', '"quoted"']]
+      const stream = fromIterable(rows)
+        .pipeThrough(stringifyCsv())
+        .pipeThrough(parseCsv())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual(rows)
+    })
+  })
+
+  describe('stringifyNdjson', () => {
+    it('should write each chunk as a line of JSON', async () => {
+      const stream = fromIterable([{ a: 1 }, 'b'])
+        .pipeThrough(stringifyNdjson())
+        .pipeThrough(parseNdjson())
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([{ a: 1 }, 'b'])
+    })
+  })
+
   describe('take', () => {
     it('should limit the number of chunks', async () => {
       const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(take(3))
@@ -385,6 +3699,73 @@ describe('Stream Utils', () => {
     })
   })
 
+  describe('takeUntil', () => {
+    it('should stop when the signal aborts', async () => {
+      const controller = new AbortController()
+      const cancelled: unknown[] = []
+      const { output, done } = collect(
+        fromIterable(
+          (async function* () {
+            try {
+              for (let i = 0; ; i++) {
+                if (i === 2) controller.abort()
+                yield i
+                await delay(1)
+              }
+            } finally {
+              cancelled.push(true)
+            }
+          })()
+        ).pipeThrough(takeUntil(controller.signal))
+      )
+      await done
+      expect(output).toStrictEqual([0, 1])
+      expect(cancelled).toStrictEqual([true])
+    })
+
+    it('should close immediately for an aborted signal', async () => {
+      const stream = fromIterable([1, 2]).pipeThrough(
+        takeUntil(AbortSignal.abort())
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([])
+    })
+
+    it('should stop when the notifier emits', async () => {
+      const input = source<number>()
+      const notifier = source<string>()
+      const { output, done } = collect(
+        input.stream.pipeThrough(takeUntil(notifier.stream))
+      )
+      input.controller.enqueue(1)
+      await delay(0)
+      notifier.controller.enqueue('stop')
+      await done
+      expect(output).toStrictEqual([1])
+      expect(() => input.controller.enqueue(2)).toThrow()
+    })
+
+    it('should cancel the notifier when the stream is done', async () => {
+      const cancelled: unknown[] = []
+      const stream = fromIterable([1, 2]).pipeThrough(
+        takeUntil(cancelSpy(cancelled))
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2])
+      expect(cancelled).toHaveLength(1)
+    })
+  })
+
+  describe('takeWhile', () => {
+    it('should stop at the first chunk failing the predicate', async () => {
+      const stream = fromIterable([1, 2, 3, 1]).pipeThrough(
+        takeWhile(n => n < 3)
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([1, 2])
+    })
+  })
+
   describe('tap', () => {
     it('should execute side effect without modifying chunks', async () => {
       const tapped: number[] = []
@@ -414,6 +3795,157 @@ describe('Stream Utils', () => {
     })
   })
 
+  describe('tapConcurrent', () => {
+    it('should run side effects concurrently and pass chunks through', async () => {
+      const tapped: number[] = []
+      const stream = fromIterable([1, 2, 3]).pipeThrough(
+        tapConcurrent(
+          async n => {
+            await delay(10 * (3 - n))
+            tapped.push(n)
+          },
+          { concurrency: 3 }
+        )
+      )
+      const actual = await toArray(stream)
+
+      expect(actual).toStrictEqual([1, 2, 3])
+      expect(tapped).toStrictEqual([3, 2, 1])
+    })
+  })
+
+  describe('throttle', () => {
+    it('should emit the first chunk of each window', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const { output, done } = collect(
+        stream.pipeThrough(throttle(100, { clock }))
+      )
+
+      controller.enqueue(1)
+      controller.enqueue(2)
+      await clock.advance(50)
+      controller.enqueue(3)
+      await clock.advance(50)
+      controller.enqueue(4)
+      controller.close()
+      await done
+      expect(output).toStrictEqual([1, 4])
+      expect(clock.pending).toBe(0)
+    })
+
+    it('should emit the last chunk of each window when trailing', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const { output, done } = collect(
+        stream.pipeThrough(
+          throttle(100, { leading: false, trailing: true, clock })
+        )
+      )
+
+      controller.enqueue(1)
+      controller.enqueue(2)
+      await clock.advance(100)
+      expect(output).toStrictEqual([2])
+      controller.enqueue(3)
+      controller.close()
+      await done
+      expect(output).toStrictEqual([2, 3])
+    })
+  })
+
+  describe('timeout', () => {
+    it('should error when no chunk arrives in time', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const { output, done } = collect(
+        stream.pipeThrough(timeout(100, { clock }))
+      )
+
+      await clock.advance(90)
+      controller.enqueue(1)
+      await clock.advance(90)
+      controller.enqueue(2)
+      await clock.advance(100)
+      await expect(done).rejects.toMatchObject({ name: 'TimeoutError' })
+      await expect(done).rejects.toBeInstanceOf(TimeoutError)
+      await expect(done).rejects.toMatchObject({
+        operator: 'timeout',
+        index: 2
+      })
+      expect(output).toStrictEqual([1, 2])
+    })
+
+    it('should clear its timer when the source closes', async () => {
+      const clock = manualClock()
+      const { done } = collect(
+        fromIterable([1, 2]).pipeThrough(timeout(100, { clock }))
+      )
+      await done
+      expect(clock.pending).toBe(0)
+    })
+
+    it('should not time out while the consumer is slow', async () => {
+      const clock = manualClock()
+      const reader = fromIterable([1, 2, 3])
+        .pipeThrough(timeout(100, { clock }))
+        .getReader()
+      await delay(0)
+      expect(clock.pending).toBe(0)
+      await clock.advance(1000)
+      expect(await reader.read()).toStrictEqual({ done: false, value: 1 })
+      await clock.advance(1000)
+      expect(await reader.read()).toStrictEqual({ done: false, value: 2 })
+      expect(await reader.read()).toStrictEqual({ done: false, value: 3 })
+      expect(await reader.read()).toStrictEqual({
+        done: true,
+        value: undefined
+      })
+    })
+
+    it('should cancel the source and clear its timer when cancelled', async () => {
+      const clock = manualClock()
+      const cancelled: unknown[] = []
+      const stream = cancelSpy<number>(cancelled).pipeThrough(
+        timeout(100, { clock })
+      )
+      await stream.cancel('stop')
+      await delay(0)
+      expect(cancelled).toStrictEqual(['stop'])
+      expect(clock.pending).toBe(0)
+    })
+  })
+
+  describe('timer', () => {
+    it('should emit 0 after the delay and close', async () => {
+      const clock = manualClock()
+      const { output, done } = collect(timer(100, { clock }))
+
+      await clock.advance(99)
+      expect(output).toStrictEqual([])
+      await clock.advance(1)
+      await done
+      expect(output).toStrictEqual([0])
+    })
+
+    it('should clear its timer when cancelled', async () => {
+      const clock = manualClock()
+      await timer(100, { clock }).cancel()
+      expect(clock.pending).toBe(0)
+    })
+
+    it('should error and clear its timer when aborted', async () => {
+      const clock = manualClock()
+      const abortController = new AbortController()
+      const { done } = collect(
+        timer(100, { clock, signal: abortController.signal })
+      )
+      abortController.abort(new Error('aborted'))
+      await expect(done).rejects.toThrow('aborted')
+      expect(clock.pending).toBe(0)
+    })
+  })
+
   describe('toArray', () => {
     it('should collect all chunks into an array', async () => {
       const stream = fromIterable([1, 2, 3])
@@ -426,6 +3958,204 @@ describe('Stream Utils', () => {
       const actual = await toArray(stream)
       expect(actual).toStrictEqual([])
     })
+    it('should reject and cancel the stream when aborted', async () => {
+      const cancelled: unknown[] = []
+      const abortController = new AbortController()
+      const source = new ReadableStream<number>({
+        start(controller) {
+          controller.enqueue(1)
+        },
+        cancel(reason) {
+          cancelled.push(reason)
+        }
+      })
+      const result = toArray(source, { signal: abortController.signal })
+      abortController.abort(new Error('aborted'))
+      await expect(result).rejects.toThrow('aborted')
+      expect(cancelled).toStrictEqual([new Error('aborted')])
+    })
+
+    it('should reject when the stream exceeds maxItems', async () => {
+      const cancelled: unknown[] = []
+      const source = new ReadableStream<number>({
+        pull(controller) {
+          controller.enqueue(1)
+        },
+        cancel(reason) {
+          cancelled.push(reason)
+        }
+      })
+      await expect(toArray(source, { maxItems: 10 })).rejects.toThrow(
+        'Stream exceeded the limit of 10 chunks'
+      )
+      expect(cancelled).toHaveLength(1)
+    })
+  })
+
+  describe('toBytes', () => {
+    it('should concatenate byte chunks', async () => {
+      const stream = fromIterable([
+        new Uint8Array([1, 2]),
+        new Uint8Array([]),
+        new Uint8Array([3])
+      ])
+      expect(await toBytes(stream)).toStrictEqual(new Uint8Array([1, 2, 3]))
+    })
+  })
+
+  describe('toGroups', () => {
+    it('should group chunks by key', async () => {
+      const groups = await toGroups(fromIterable([1, 2, 3, 4, 5]), n =>
+        n % 2 === 0 ? 'even' : 'odd'
+      )
+      expect(groups).toStrictEqual(
+        new Map([
+          ['odd', [1, 3, 5]],
+          ['even', [2, 4]]
+        ])
+      )
+    })
+  })
+
+  describe('toMap', () => {
+    it('should collect chunks by key', async () => {
+      const users = fromIterable([
+        { id: 1, name: 'Ada' },
+        { id: 2, name: 'Alan' },
+        { id: 1, name: 'Grace' }
+      ])
+      const names = await toMap(
+        users,
+        user => user.id,
+        user => user.name
+      )
+      expect(names).toStrictEqual(
+        new Map([
+          [1, 'Grace'],
+          [2, 'Alan']
+        ])
+      )
+    })
+  })
+
+  describe('toString', () => {
+    it('should decode text chunks into a string', async () => {
+      const bytes = new TextEncoder().encode('héllo')
+      const stream = fromIterable<TextChunk>([
+        'say ',
+        bytes.slice(0, 2),
+        bytes.slice(2)
+      ])
+      expect(await toString(stream)).toBe('say héllo')
+    })
+  })
+
+  describe('windowCount', () => {
+    it('should emit tumbling windows', async () => {
+      const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(windowCount(2))
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([[1, 2], [3, 4], [5]])
+    })
+
+    it('should emit sliding windows', async () => {
+      const stream = fromIterable([1, 2, 3, 4]).pipeThrough(windowCount(3, 1))
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([[1, 2, 3], [2, 3, 4], [3, 4], [4]])
+    })
+
+    it('should skip chunks between windows', async () => {
+      const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
+        windowCount(2, 3)
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([
+        [1, 2],
+        [4, 5]
+      ])
+    })
+  })
+
+  describe('windowReduce', () => {
+    it('should reduce each window', async () => {
+      const stream = fromIterable([1, 2, 3, 4, 5]).pipeThrough(
+        windowReduce(windowCount(2), (sum, n: number) => sum + n, 0)
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([3, 7, 5])
+    })
+  })
+
+  describe('windowTime', () => {
+    it('should emit tumbling windows in processing time', async () => {
+      const clock = manualClock()
+      const { stream, controller } = source<number>()
+      const { output, done } = collect(
+        stream.pipeThrough(windowTime(100, undefined, { clock }))
+      )
+      controller.enqueue(1)
+      await clock.advance(50)
+      controller.enqueue(2)
+      await clock.advance(60)
+      expect(output).toStrictEqual([[1, 2]])
+      controller.enqueue(3)
+      await clock.advance(300)
+      controller.enqueue(4)
+      controller.close()
+      await done
+      expect(output).toStrictEqual([[1, 2], [3], [4]])
+      expect(clock.pending).toBe(0)
+    })
+
+    it('should emit sliding windows in event time', async () => {
+      const stream = fromIterable([0, 40, 60, 120]).pipeThrough(
+        windowTime(100, 50, { timestamp: time => time })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([[0, 40], [0, 40, 60], [60, 120], [120]])
+    })
+
+    it('should accept late chunks within the allowed lateness', async () => {
+      const stream = fromIterable([10, 110, 90, 230, 95]).pipeThrough(
+        windowTime(100, undefined, {
+          timestamp: time => time,
+          allowedLateness: 50
+        })
+      )
+      const actual = await toArray(stream)
+      expect(actual).toStrictEqual([[10, 90], [110], [230]])
+    })
+  })
+
+  describe('zip', () => {
+    it('should emit tuples until the shortest stream ends', async () => {
+      const actual = await toArray(
+        zip(fromIterable([1, 2, 3]), fromIterable(['a', 'b']))
+      )
+      expect(actual).toStrictEqual([
+        [1, 'a'],
+        [2, 'b']
+      ])
+    })
+
+    it('should cancel the other streams when one ends', async () => {
+      const cancelled: unknown[] = []
+      const actual = await toArray(
+        zip(fromIterable<number>([]), cancelSpy<number>(cancelled))
+      )
+      expect(actual).toStrictEqual([])
+      expect(cancelled).toHaveLength(1)
+    })
+
+    it('should propagate errors', async () => {
+      const failing = new ReadableStream<number>({
+        start(controller) {
+          controller.error(new Error('boom'))
+        }
+      })
+      await expect(toArray(zip(fromIterable([1]), failing))).rejects.toThrow(
+        'boom'
+      )
+    })
   })
 
   describe('Composition', () => {
@@ -1,427 +1,7672 @@
 type SyncOrAsync<T> = T | Promise<T>
 
+/**
+ * Transformer including the `cancel` hook, which runtimes call when the
+ * readable side is cancelled or the writable side is aborted
+ */
+interface CancellableTransformer<I, O> {
+  start?: (controller: TransformStreamDefaultController<O>) => SyncOrAsync<void>
+  transform?: (
+    chunk: I,
+    controller: TransformStreamDefaultController<O>
+  ) => SyncOrAsync<void>
+  flush?: (controller: TransformStreamDefaultController<O>) => SyncOrAsync<void>
+  cancel?: (reason: unknown) => SyncOrAsync<void>
+}
+
+/**
+ * Identity helper that keeps `cancel` type-checked while the Web Streams type
+ * definitions do not declare it on `Transformer`
+ */
+function cancellable<I, O>(
+  transformer: CancellableTransformer<I, O>
+): CancellableTransformer<I, O> {
+  return transformer
+}
+
+/**
+ * The chunk types of a tuple of streams
+ *
+ * @example
+ * ```ts
+ * type Values = StreamValues<[ReadableStream<number>, ReadableStream<string>]>
+ * // [number, string]
+ * ```
+ */
+export type StreamValues<S extends readonly ReadableStream<unknown>[]> = {
+  [K in keyof S]: S[K] extends ReadableStream<infer T> ? T : never
+}
+
+/**
+ * Cancel every reader and release its lock, ignoring readers whose stream has
+ * already errored
+ */
+function cancelReaders(
+  readers: Iterable<ReadableStreamDefaultReader<unknown>>,
+  reason?: unknown
+): Promise<void> {
+  return Promise.all(
+    [...readers].map(reader =>
+      reader.cancel(reason).then(
+        () => reader.releaseLock(),
+        () => {}
+      )
+    )
+  ).then(() => {})
+}
+
+/**
+ * Create a promise along with the functions settling it. Its rejection is
+ * handled, so a result nobody awaits does not crash the process
+ */
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  let reject!: (reason: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  promise.catch(() => {})
+  return { promise, resolve, reject }
+}
+
+/**
+ * A chunk of text, either already decoded or as UTF-8 bytes
+ */
+export type TextChunk = string | Uint8Array
+
+/**
+ * Decode text chunks, keeping multi-byte characters split across chunks intact
+ */
+function textDecoder() {
+  const decoder = new TextDecoder()
+  return {
+    decode(chunk: TextChunk): string {
+      return typeof chunk === 'string'
+        ? chunk
+        : decoder.decode(chunk, { stream: true })
+    },
+    end(): string {
+      return decoder.decode()
+    }
+  }
+}
+
+/**
+ * Copy byte chunks into a single buffer
+ */
+function joinBytes(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.byteLength, 0)
+  )
+  chunks.reduce((offset, chunk) => {
+    bytes.set(chunk, offset)
+    return offset + chunk.byteLength
+  }, 0)
+  return bytes
+}
+
+/**
+ * A FIFO of bytes that only copies them once they are taken out, so that
+ * accumulating many small chunks stays linear
+ */
+function byteQueue() {
+  const chunks: Uint8Array[] = []
+  let length = 0
+
+  return {
+    /** The number of bytes in the queue */
+    get length() {
+      return length
+    },
+    push(chunk: Uint8Array) {
+      if (chunk.byteLength === 0) return
+      chunks.push(chunk)
+      length += chunk.byteLength
+    },
+    /** Remove the first `size` bytes from the queue and return them */
+    take(size: number): Uint8Array<ArrayBuffer> {
+      const bytes = new Uint8Array(size)
+      for (let offset = 0; offset < size; ) {
+        const chunk = chunks[0]
+        const count = Math.min(chunk.byteLength, size - offset)
+        bytes.set(chunk.subarray(0, count), offset)
+        offset += count
+        if (count === chunk.byteLength) {
+          chunks.shift()
+        } else {
+          chunks[0] = chunk.subarray(count)
+        }
+      }
+      length -= size
+      return bytes
+    }
+  }
+}
+
+/**
+ * The round constants of SHA-256
+ */
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+])
+
+function rotateRight(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n))
+}
+
+/**
+ * Incremental SHA-256, since Web Crypto can only digest a whole buffer at once
+ */
+function sha256(): {
+  update(bytes: Uint8Array): void
+  digest(): Uint8Array
+} {
+  const state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19
+  ])
+  const block = new Uint8Array(64)
+  const view = new DataView(block.buffer)
+  const words = new Uint32Array(64)
+  let filled = 0
+  let length = 0
+
+  function compress() {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(i * 4)
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = words[i - 15]
+      const w2 = words[i - 2]
+      const s0 = rotateRight(w15, 7) ^ rotateRight(w15, 18) ^ (w15 >>> 3)
+      const s1 = rotateRight(w2, 17) ^ rotateRight(w2, 19) ^ (w2 >>> 10)
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1
+    }
+
+    let [a, b, c, d, e, f, g, h] = state
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25)
+      const choice = (e & f) ^ (~e & g)
+      const t1 = (h + s1 + choice + SHA256_K[i] + words[i]) >>> 0
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22)
+      const majority = (a & b) ^ (a & c) ^ (b & c)
+      const t2 = (s0 + majority) >>> 0
+      h = g
+      g = f
+      f = e
+      e = (d + t1) >>> 0
+      d = c
+      c = b
+      b = a
+      a = (t1 + t2) >>> 0
+    }
+    state[0] += a
+    state[1] += b
+    state[2] += c
+    state[3] += d
+    state[4] += e
+    state[5] += f
+    state[6] += g
+    state[7] += h
+  }
+
+  function update(bytes: Uint8Array) {
+    length += bytes.length
+    for (let offset = 0; offset < bytes.length; ) {
+      const size = Math.min(64 - filled, bytes.length - offset)
+      block.set(bytes.subarray(offset, offset + size), filled)
+      filled += size
+      offset += size
+      if (filled === 64) {
+        compress()
+        filled = 0
+      }
+    }
+  }
+
+  return {
+    update,
+    digest() {
+      const bits = length * 8
+      block[filled++] = 0x80
+      if (filled > 56) {
+        block.fill(0, filled)
+        compress()
+        filled = 0
+      }
+      block.fill(0, filled, 56)
+      view.setUint32(56, Math.floor(bits / 2 ** 32))
+      view.setUint32(60, bits >>> 0)
+      compress()
+
+      const digest = new Uint8Array(32)
+      const output = new DataView(digest.buffer)
+      state.forEach((word, i) => output.setUint32(i * 4, word))
+      return digest
+    }
+  }
+}
+
+/**
+ * Split a JSONPath expression such as `$.items[*].id` into the keys and
+ * indices it selects, wildcards being `undefined`
+ */
+function jsonPathSegments(path: string): (string | number | undefined)[] {
+  const segment =
+    /\.([^.[\]]+)|\[(?:(\*)|(\d+)|'([^']*)'|("(?:[^"\\]|\\.)*"))\]/y
+  if (!path.startsWith('$')) {
+    throw new SyntaxError(`JSONPath must start with '$': ${path}`)
+  }
+  const segments: (string | number | undefined)[] = []
+  for (let position = 1; position < path.length; ) {
+    segment.lastIndex = position
+    const match = segment.exec(path)
+    if (!match) {
+      throw new SyntaxError(`Invalid JSONPath at position ${position}: ${path}`)
+    }
+    const [, name, wildcard, index, single, double] = match
+    if (wildcard !== undefined || name === '*') {
+      segments.push(undefined)
+    } else if (index !== undefined) {
+      segments.push(Number(index))
+    } else if (double !== undefined) {
+      segments.push(JSON.parse(double))
+    } else {
+      segments.push(name ?? single)
+    }
+    position = segment.lastIndex
+  }
+  return segments
+}
+
+/**
+ * Where a {@link StreamOperatorError} happened
+ */
+export interface StreamOperatorErrorOptions {
+  /** The name of the operator that failed */
+  operator: string
+  /** The zero-based index of the chunk being processed */
+  index?: number
+  /** The zero-based index of the failed input, for the operators combining several streams */
+  input?: number
+  /** The chunk being processed, only attached to the errors of operators asked to with `includeChunk` */
+  chunk?: unknown
+  /** The original error */
+  cause?: unknown
+}
+
+/**
+ * Error of a failed operator, telling which operator and chunk caused it
+ *
+ * The errors thrown by the callbacks of operators such as {@link map}, and the
+ * errors of the inputs of {@link merge}, are wrapped in a
+ * `StreamOperatorError` whose `cause` is the original error.
+ *
+ * @category Errors
+ * @example
+ * ```ts
+ * try {
+ *   await toArray(ids.pipeThrough(map(fetchUser)))
+ * } catch (error) {
+ *   if (error instanceof StreamOperatorError) {
+ *     console.error(error.operator, error.index, error.cause)
+ *   }
+ * }
+ * ```
+ */
+export class StreamOperatorError extends Error {
+  name = 'StreamOperatorError'
+  /** The name of the operator that failed */
+  readonly operator: string
+  /** The zero-based index of the chunk being processed, if any */
+  readonly index?: number
+  /** The zero-based index of the failed input, if any */
+  readonly input?: number
+  /** The chunk being processed, when the operator was asked to attach it */
+  readonly chunk?: unknown
+
+  constructor(
+    message: string,
+    { operator, index, input, cause, ...rest }: StreamOperatorErrorOptions
+  ) {
+    super(message, { cause })
+    this.operator = operator
+    this.index = index
+    this.input = input
+    if ('chunk' in rest) {
+      this.chunk = rest.chunk
+    }
+  }
+}
+
+/**
+ * Error of an operator that was aborted
+ *
+ * Its `name` is `'AbortError'`, like the `DOMException` of aborted web APIs,
+ * so `error.name === 'AbortError'` checks keep working. The callbacks of a
+ * cancelled operator see it as the reason of their signal.
+ *
+ * @category Errors
+ */
+export class AbortError extends StreamOperatorError {
+  name = 'AbortError'
+}
+
+/**
+ * Error of an operator that did not receive a chunk in time
+ *
+ * @category Errors
+ */
+export class TimeoutError extends StreamOperatorError {
+  name = 'TimeoutError'
+}
+
+/**
+ * Error of an operator that exceeded one of its limits, such as a buffer size
+ * or a maximum number of chunks
+ *
+ * @category Errors
+ */
+export class LimitExceededError extends StreamOperatorError {
+  name = 'LimitExceededError'
+  /** The limit that was exceeded */
+  readonly limit: number
+
+  constructor(
+    message: string,
+    { limit, ...options }: StreamOperatorErrorOptions & { limit: number }
+  ) {
+    super(message, options)
+    this.limit = limit
+  }
+}
+
+/**
+ * Wrap the error of an operator in a {@link StreamOperatorError}
+ */
+function operatorError(
+  cause: unknown,
+  options: Omit<StreamOperatorErrorOptions, 'cause'>
+): StreamOperatorError {
+  let at = ''
+  if (options.index !== undefined) {
+    at = ` on chunk ${options.index}`
+  } else if (options.input !== undefined) {
+    at = ` on input ${options.input}`
+  }
+  const reason = cause instanceof Error ? cause.message : String(cause)
+  return new StreamOperatorError(`${options.operator} failed${at}: ${reason}`, {
+    ...options,
+    cause
+  })
+}
+
+/**
+ * Options of the functions that can be aborted
+ */
+export interface SignalOptions {
+  /**
+   * Abort the function: consumers reject, creators and operators error their
+   * readable, and operators cancel their input, all with the signal's reason
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Options shared by the functions consuming a stream
+ */
+export interface ConsumeOptions extends SignalOptions {
+  /** Maximum number of chunks to read before cancelling the stream and rejecting. Defaults to `Infinity` */
+  maxItems?: number
+}
+
+/**
+ * Read a stream chunk by chunk until it is done or `onChunk` returns `true`,
+ * cancelling the stream when stopping early, failing or aborted
+ */
+async function consume<T>(
+  operator: string,
+  stream: ReadableStream<T>,
+  onChunk: (chunk: T) => SyncOrAsync<boolean | void>,
+  { signal, maxItems = Infinity }: ConsumeOptions = {}
+): Promise<void> {
+  signal?.throwIfAborted()
+  const reader = stream.getReader()
+  let onAbort: (() => void) | undefined
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal!.reason)
+  })
+  aborted.catch(() => {})
+  signal?.addEventListener('abort', onAbort!, { once: true })
+
+  let stopped = false
+  let reason: unknown
+  let count = 0
+  try {
+    while (true) {
+      const result = await Promise.race([reader.read(), aborted])
+      if (result.done) break
+      if (++count > maxItems) {
+        throw new LimitExceededError(
+          `Stream exceeded the limit of ${maxItems} chunks`,
+          { operator, index: count - 1, limit: maxItems }
+        )
+      }
+      if (await onChunk(result.value)) {
+        stopped = true
+        break
+      }
+    }
+  } catch (error) {
+    stopped = true
+    reason = error
+    throw error
+  } finally {
+    signal?.removeEventListener('abort', onAbort!)
+    if (stopped) {
+      await reader.cancel(reason).catch(() => {})
+    }
+    reader.releaseLock()
+  }
+}
+
+/**
+ * The underlying source of a ReadableStream of chunks
+ */
+interface ChunkSource<T> {
+  start?: (controller: ReadableStreamDefaultController<T>) => SyncOrAsync<void>
+  pull?: (controller: ReadableStreamDefaultController<T>) => SyncOrAsync<void>
+  cancel?: (reason: unknown) => SyncOrAsync<void>
+}
+
+/**
+ * Create a ReadableStream from `source` that errors with the signal's reason
+ * and cancels `source` once the signal is aborted
+ */
+function abortableStream<T>(
+  source: ChunkSource<T>,
+  signal?: AbortSignal
+): ReadableStream<T> {
+  if (!signal) return new ReadableStream<T>(source)
+
+  let controller: ReadableStreamDefaultController<T>
+  const onAbort = () => {
+    controller.error(signal.reason)
+    Promise.resolve(source.cancel?.(signal.reason)).catch(() => {})
+  }
+  const detach = () => signal.removeEventListener('abort', onAbort)
+  // Stop listening once the source closes or errors the stream itself
+  const wrapped: ReadableStreamDefaultController<T> = {
+    get desiredSize() {
+      return controller.desiredSize
+    },
+    enqueue: chunk => controller.enqueue(chunk),
+    close() {
+      detach()
+      controller.close()
+    },
+    error(reason) {
+      detach()
+      controller.error(reason)
+    }
+  }
+
+  return new ReadableStream<T>({
+    async start(streamController) {
+      signal.throwIfAborted()
+      controller = streamController
+      signal.addEventListener('abort', onAbort, { once: true })
+      try {
+        await source.start?.(wrapped)
+      } catch (error) {
+        detach()
+        throw error
+      }
+    },
+    async pull() {
+      try {
+        await source.pull?.(wrapped)
+      } catch (error) {
+        detach()
+        throw error
+      }
+    },
+    cancel(reason) {
+      detach()
+      return source.cancel?.(reason)
+    }
+  })
+}
+
+/**
+ * Source of time for the time-based operators, replaceable for deterministic
+ * tests
+ */
+export interface Clock {
+  /** The current time in milliseconds */
+  now(): number
+  /** Call `callback` after `ms` milliseconds, returning a handle for `clearTimeout` */
+  setTimeout(callback: () => void, ms: number): unknown
+  /** Cancel a callback scheduled with `setTimeout` */
+  clearTimeout(handle: unknown): void
+}
+
+/**
+ * The clock backed by `Date.now` and the global timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+}
+
+/**
+ * Options for the time-based operators
+ */
+export interface TimerOptions {
+  /** The clock used to read the time and schedule timers. Defaults to {@link systemClock} */
+  clock?: Clock
+}
+
+/**
+ * Options for retrying a failed callback
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one */
+  attempts: number
+  /** Delay in milliseconds before the first retry. Defaults to `100` */
+  delay?: number
+  /** Factor applied to the delay after every retry. Defaults to `2` */
+  factor?: number
+  /** Upper bound of the delay in milliseconds. Defaults to `Infinity` */
+  maxDelay?: number
+  /** Pick each delay at random between zero and its computed value. Defaults to `true` */
+  jitter?: boolean
+  /** Whether a failed attempt should be retried. Defaults to retrying every error */
+  shouldRetry?: (error: unknown, attempt: number) => boolean
+  /** Stop retrying, rejecting with the signal's reason */
+  signal?: AbortSignal
+}
+
+/**
+ * The queuing strategies of the two sides of an operator
+ */
+export interface StrategyOptions<I, O = I> {
+  /** Queuing strategy of the chunks waiting to be processed. Defaults to a high-water mark of one chunk */
+  writableStrategy?: QueuingStrategy<I>
+  /** Queuing strategy of the results waiting to be read. Defaults to a high-water mark of zero */
+  readableStrategy?: QueuingStrategy<O>
+}
+
+/**
+ * Options shared by the operators running an async callback per chunk
+ */
+export interface OperatorOptions<I = unknown, O = I>
+  extends StrategyOptions<I, O>, SignalOptions {
+  /** Retry the callback of a chunk when it fails */
+  retry?: RetryOptions
+  /** Attach the chunk whose callback failed to the error of the operator, which may then leak into logs. Defaults to `false` */
+  includeChunk?: boolean
+}
+
+/**
+ * Add `signal` to the retry options, keeping the signal they may already have
+ */
+function retryWithSignal(
+  retry: RetryOptions | undefined,
+  signal: AbortSignal | undefined
+): RetryOptions | undefined {
+  if (!retry || !signal) return retry
+  return {
+    ...retry,
+    signal: retry.signal ? AbortSignal.any([signal, retry.signal]) : signal
+  }
+}
+
+/**
+ * Wrap `fn` so each call is retried with exponential backoff
+ */
+function withRetry<T, R>(
+  fn: (chunk: T) => SyncOrAsync<R>,
+  options?: RetryOptions
+): (chunk: T) => SyncOrAsync<R> {
+  if (!options) return fn
+  const {
+    attempts,
+    delay = 100,
+    factor = 2,
+    maxDelay = Infinity,
+    jitter = true,
+    shouldRetry = () => true,
+    signal
+  } = options
+
+  return async chunk => {
+    for (let attempt = 1; ; attempt++) {
+      signal?.throwIfAborted()
+      try {
+        return await fn(chunk)
+      } catch (error) {
+        if (attempt >= attempts || !shouldRetry(error, attempt)) {
+          throw error
+        }
+      }
+
+      const backoff = Math.min(maxDelay, delay * factor ** (attempt - 1))
+      await sleep(jitter ? Math.random() * backoff : backoff, signal)
+    }
+  }
+}
+
+/**
+ * Resolve after `ms` milliseconds, or reject with the signal's reason once it
+ * is aborted
+ */
+function sleep(
+  ms: number,
+  signal?: AbortSignal,
+  clock: Clock = systemClock
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted()
+    const onAbort = () => {
+      clock.clearTimeout(id)
+      reject(signal!.reason)
+    }
+    const id = clock.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * The abort signal handed to the callbacks of an operator: it is aborted when
+ * the operator is cancelled or fails, and when the signal of its options is,
+ * which also errors the operator with the signal's reason
+ */
+interface CallbackScope<T, R> {
+  /** Call the callback with the scope's signal, retrying as configured */
+  run: (chunk: T) => SyncOrAsync<R>
+  /** Error the operator when the signal of the options aborts, calling `onAbort` with its reason */
+  start(
+    controller: TransformStreamDefaultController<unknown>,
+    onAbort?: (reason: unknown) => void
+  ): void
+  /** Abort the callbacks in flight with an {@link AbortError} */
+  cancel(reason: unknown): void
+  /** Abort the callbacks in flight, returning the error to fail the operator with */
+  fail(error: unknown, index: number, chunk: T): StreamOperatorError
+  /** Stop listening to the signal of the options */
+  close(): void
+}
+
+function callbackScope<T, R>(
+  operator: string,
+  fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  {
+    retry,
+    signal,
+    includeChunk
+  }: Pick<OperatorOptions, 'retry' | 'signal' | 'includeChunk'>
+): CallbackScope<T, R> {
+  const aborter = new AbortController()
+  let onAbort: (() => void) | undefined
+
+  function close() {
+    if (onAbort) signal!.removeEventListener('abort', onAbort)
+  }
+
+  function abort(reason: unknown) {
+    close()
+    aborter.abort(reason)
+  }
+
+  return {
+    run: withRetry(
+      chunk => fn(chunk, aborter.signal),
+      retryWithSignal(retry, aborter.signal)
+    ),
+    start(controller, stop) {
+      if (!signal) return
+      onAbort = () => {
+        abort(signal.reason)
+        controller.error(signal.reason)
+        stop?.(signal.reason)
+      }
+      if (signal.aborted) return onAbort()
+      signal.addEventListener('abort', onAbort, { once: true })
+    },
+    cancel(reason) {
+      abort(
+        new AbortError(`${operator} was cancelled`, { operator, cause: reason })
+      )
+    },
+    fail(error, index, chunk) {
+      const wrapped = operatorError(
+        error,
+        includeChunk ? { operator, index, chunk } : { operator, index }
+      )
+      abort(wrapped)
+      return wrapped
+    },
+    close
+  }
+}
+
+/**
+ * Create an operator calling `fn` on chunks through a {@link CallbackScope},
+ * with optional `flush` and `cancel` steps of its own. `cancel` also runs when
+ * the signal of the options aborts the operator
+ */
+function callbackTransform<T, R, O>(
+  operator: string,
+  fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  options: OperatorOptions<T, O>,
+  transform: (
+    chunk: T,
+    run: (chunk: T) => SyncOrAsync<R>,
+    controller: TransformStreamDefaultController<O>
+  ) => Promise<void>,
+  {
+    flush,
+    cancel
+  }: {
+    flush?: (controller: TransformStreamDefaultController<O>) => void
+    cancel?: (reason: unknown) => void
+  } = {}
+): TransformStream<T, O> {
+  const scope = callbackScope(operator, fn, options)
+  let index = 0
+  return new TransformStream<T, O>(
+    cancellable({
+      start: controller => scope.start(controller, cancel),
+      async transform(chunk, controller) {
+        const current = index++
+        try {
+          await transform(chunk, scope.run, controller)
+        } catch (error) {
+          throw scope.fail(error, current, chunk)
+        }
+      },
+      flush(controller) {
+        scope.close()
+        flush?.(controller)
+      },
+      cancel(reason) {
+        scope.cancel(reason)
+        cancel?.(reason)
+      }
+    }),
+    options.writableStrategy,
+    options.readableStrategy
+  )
+}
+
+/**
+ * Reduce the chunks to a single value emitted when the stream closes, starting
+ * from the first chunk without a seed
+ */
+function reduceTransform<T, R>(
+  reducer: (accumulator: R, chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  options: ReduceOptions<T, R> = {}
+): TransformStream<T, R> {
+  let state: { accumulator: R } | undefined =
+    'initialValue' in options
+      ? { accumulator: options.initialValue as R }
+      : undefined
+  return callbackTransform(
+    'reduce',
+    (chunk: T, signal) => reducer(state!.accumulator, chunk, signal),
+    options,
+    async (chunk, run) => {
+      state = state
+        ? { accumulator: await run(chunk) }
+        : { accumulator: chunk as unknown as R }
+    },
+    {
+      flush(controller) {
+        if (!state) {
+          throw new EmptyStreamError(
+            'Cannot reduce an empty stream without an initial value',
+            { operator: 'reduce' }
+          )
+        }
+        controller.enqueue(state.accumulator)
+      }
+    }
+  )
+}
+
+/**
+ * Read the stream and reduce its chunks to a single value, starting from the
+ * first chunk without an `initialValue`
+ */
+async function reduceStream<T, R>(
+  stream: ReadableStream<T>,
+  reducer: (accumulator: R, chunk: T) => SyncOrAsync<R>,
+  options: ReduceToPromiseOptions<R> = {}
+): Promise<R> {
+  let state: { accumulator: R } | undefined =
+    'initialValue' in options
+      ? { accumulator: options.initialValue as R }
+      : undefined
+  await consume(
+    'reduceToPromise',
+    stream,
+    async chunk => {
+      state = state
+        ? { accumulator: await reducer(state.accumulator, chunk) }
+        : { accumulator: chunk as unknown as R }
+    },
+    options
+  )
+  if (!state) {
+    throw new EmptyStreamError(
+      'Cannot reduce an empty stream without an initial value',
+      { operator: 'reduceToPromise' }
+    )
+  }
+  return state.accumulator
+}
+
+/**
+ * Options for the concurrent variants of the async operators
+ */
+export interface ConcurrencyOptions<I = unknown, O = I> extends OperatorOptions<
+  I,
+  O
+> {
+  /** Maximum number of callbacks running at the same time. When ordered, results waiting for an earlier chunk count too */
+  concurrency: number
+  /** Whether results are emitted in input order. Defaults to `true` */
+  ordered?: boolean
+}
+
+/**
+ * Run `fn` on up to `concurrency` chunks at once and hand each settled result
+ * to `emit`, either in input order or as soon as it is available.
+ */
+function concurrentTransform<T, R, O>(
+  operator: string,
+  fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  emit: (
+    controller: TransformStreamDefaultController<O>,
+    result: R,
+    chunk: T
+  ) => void,
+  options: ConcurrencyOptions<T, O>
+): TransformStream<T, O> {
+  const { concurrency, ordered = true } = options
+  if (!(concurrency >= 1)) {
+    throw new RangeError('concurrency must be a positive number')
+  }
+  const scope = callbackScope(operator, fn, options)
+
+  type Task = { chunk: T; done: boolean; result?: R }
+  const queue: Task[] = []
+  const inFlight = new Set<Promise<void>>()
+  let index = 0
+  let failed = false
+
+  function drain(controller: TransformStreamDefaultController<O>) {
+    while (queue.length > 0 && queue[0].done) {
+      const task = queue.shift()!
+      emit(controller, task.result!, task.chunk)
+    }
+  }
+
+  return new TransformStream<T, O>(
+    cancellable({
+      start: scope.start,
+      async transform(chunk, controller) {
+        const task: Task = { chunk, done: false }
+        const current = index++
+        if (ordered) {
+          queue.push(task)
+        }
+
+        const promise = (async () => {
+          try {
+            const result = await scope.run(chunk)
+            if (failed) return
+            if (ordered) {
+              task.result = result
+              task.done = true
+              drain(controller)
+            } else {
+              emit(controller, result, chunk)
+            }
+          } catch (error) {
+            if (!failed) {
+              failed = true
+              controller.error(scope.fail(error, current, chunk))
+            }
+          }
+        })()
+        inFlight.add(promise)
+        promise.then(() => inFlight.delete(promise))
+
+        // In order, results waiting for an earlier chunk hold a slot too
+        while (
+          !failed &&
+          (ordered ? queue.length : inFlight.size) >= concurrency
+        ) {
+          await Promise.race(inFlight)
+        }
+      },
+      async flush() {
+        await Promise.all(inFlight)
+        scope.close()
+      },
+      cancel: scope.cancel
+    }),
+    options.writableStrategy,
+    options.readableStrategy
+  )
+}
+
+/**
+ * One of the readables fed by {@link splitter}
+ */
+interface Branch<T> {
+  readable: ReadableStream<T>
+  /** Whether the branch is neither cancelled nor closed */
+  readonly open: boolean
+  /** Enqueue a chunk, unless the branch is no longer open */
+  enqueue(chunk: T): void
+  close(): void
+}
+
+/**
+ * Read `stream` into any number of branches, only reading the next chunk once
+ * every open branch has room for it. Errors, including those thrown by
+ * `dispatch` and the reason of an aborted `signal`, reach every branch, and
+ * the source is cancelled once every branch is cancelled. The signal handed
+ * to `dispatch` is aborted when the branches fail or are all cancelled.
+ */
+function splitter<T>(
+  operator: string,
+  stream: ReadableStream<T>,
+  dispatch: (chunk: T, signal: AbortSignal) => SyncOrAsync<void>,
+  { onEnd, signal }: SignalOptions & { onEnd?: () => void } = {}
+) {
+  const reader = stream.getReader()
+  const open = new Set<ReadableStreamDefaultController<never>>()
+  const aborter = new AbortController()
+  const onAbort = () => fail(signal!.reason)
+  let reading = false
+  let done = false
+
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  function end(reason?: unknown) {
+    done = true
+    signal?.removeEventListener('abort', onAbort)
+    if (reason !== undefined) aborter.abort(reason)
+    onEnd?.()
+  }
+
+  function fail(error: unknown) {
+    if (done) return
+    end(error)
+    open.forEach(controller => controller.error(error))
+    open.clear()
+    cancelReaders([reader], error)
+  }
+
+  async function pump() {
+    if (reading || done) return
+    if (signal?.aborted) return fail(signal.reason)
+    reading = true
+    try {
+      while (
+        !done &&
+        [...open].every(controller => controller.desiredSize! > 0)
+      ) {
+        const result = await reader.read()
+        if (done) return
+        if (result.done) {
+          end()
+          open.forEach(controller => controller.close())
+          open.clear()
+          return
+        }
+        await dispatch(result.value, aborter.signal)
+      }
+    } catch (error) {
+      fail(error)
+    } finally {
+      reading = false
+    }
+  }
+
+  function remove(
+    controller: ReadableStreamDefaultController<never>,
+    reason?: unknown
+  ) {
+    if (!open.delete(controller) || done) return
+    if (open.size === 0) {
+      end(
+        new AbortError(`${operator} was cancelled`, { operator, cause: reason })
+      )
+      cancelReaders([reader], reason)
+    } else {
+      void pump()
+    }
+  }
+
+  function branch<R>(): Branch<R> {
+    let controller!: ReadableStreamDefaultController<R>
+    const readable = new ReadableStream<R>({
+      start(c) {
+        controller = c
+        open.add(c)
+      },
+      pull() {
+        void pump()
+      },
+      cancel(reason) {
+        remove(controller, reason)
+      }
+    })
+
+    return {
+      readable,
+      get open() {
+        return open.has(controller)
+      },
+      enqueue(chunk) {
+        if (open.has(controller)) {
+          controller.enqueue(chunk)
+        }
+      },
+      close() {
+        if (open.has(controller)) {
+          controller.close()
+          remove(controller)
+        }
+      }
+    }
+  }
+
+  return branch
+}
+
+/**
+ * Whether the arguments of {@link append} are an array of items and the
+ * queuing strategies, rather than the items themselves
+ */
+function isItemsWithStrategies<T>(
+  args: T[] | [T[], StrategyOptions<T>]
+): args is [T[], StrategyOptions<T>] {
+  const [items, options] = args
+  return (
+    args.length === 2 &&
+    Array.isArray(items) &&
+    typeof options === 'object' &&
+    options !== null &&
+    !Array.isArray(options) &&
+    ('writableStrategy' in options || 'readableStrategy' in options)
+  )
+}
+
 /**
  * Append items to a stream
  *
- * @category Transformation
- * @param items - The items to append to the stream
- * @returns A TransformStream that appends the items to the end of the stream
+ * The items are passed either as arguments, or as an array followed by the
+ * queuing strategies, like {@link merge}.
+ *
+ * @category Transformation
+ * @param items - The items to append to the stream
+ * @param options - The queuing strategies, when the items are passed as an array
+ * @returns A TransformStream that appends the items to the end of the stream
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(append(4, 5, 6));
+ * // If readable emits [1, 2, 3], the result will be [1, 2, 3, 4, 5, 6]
+ *
+ * const queued = readable.pipeThrough(
+ *   append([4, 5, 6], { readableStrategy: { highWaterMark: 3 } })
+ * );
+ * ```
+ */
+export function append<T>(
+  items: T[],
+  options: StrategyOptions<T>
+): TransformStream<T, T>
+export function append<T>(...items: T[]): TransformStream<T, T>
+export function append<T>(
+  ...args: T[] | [T[], StrategyOptions<T>]
+): TransformStream<T, T> {
+  const [items, { writableStrategy, readableStrategy }] = isItemsWithStrategies(
+    args
+  )
+    ? args
+    : [args as T[], {}]
+  return new TransformStream(
+    {
+      flush(controller) {
+        items.forEach(item => {
+          controller.enqueue(item)
+        })
+      }
+    },
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Options for {@link batch}
+ */
+export interface BatchOptions<T> extends StrategyOptions<T, T[]> {
+  /** Maximum number of chunks per batch */
+  size?: number
+  /** Maximum time in milliseconds since the first buffered chunk before the batch is flushed */
+  maxWait?: number
+  /** Maximum total weight per batch, as computed by `weigh` */
+  maxWeight?: number
+  /** Compute the weight of a chunk, e.g. its byte length. Defaults to `1` */
+  weigh?: (chunk: T) => number
+}
+
+/**
+ * Batch chunks into arrays of specified size
+ *
+ * A batch is emitted as soon as any limit is reached: `size` chunks, `maxWait`
+ * milliseconds since its first chunk, or a total weight of `maxWeight`. A chunk
+ * that would push a non-empty batch over `maxWeight` starts the next batch.
+ *
+ * @category Transformation
+ * @param sizeOrOptions - The size of each batch, or the batching limits
+ * @returns A TransformStream that groups chunks into batches
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(batch(3));
+ * // If readable emits [1, 2, 3, 4, 5], the result will be [[1, 2, 3], [4, 5]]
+ *
+ * const flushed = readable.pipeThrough(batch({ size: 100, maxWait: 1000 }));
+ * // Emits up to 100 chunks at once, waiting at most one second
+ * ```
+ */
+export function batch<T>(
+  sizeOrOptions: number | BatchOptions<T>
+): TransformStream<T, T[]> {
+  const {
+    size = Infinity,
+    maxWait,
+    maxWeight = Infinity,
+    weigh = () => 1,
+    writableStrategy,
+    readableStrategy
+  }: BatchOptions<T> = typeof sizeOrOptions === 'number'
+    ? { size: sizeOrOptions }
+    : sizeOrOptions
+  let buffer: T[] = []
+  let weight = 0
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  function clearTimer() {
+    if (timer !== undefined) {
+      clearTimeout(timer)
+      timer = undefined
+    }
+  }
+
+  function emit(controller: TransformStreamDefaultController<T[]>) {
+    clearTimer()
+    if (buffer.length > 0) {
+      controller.enqueue(buffer)
+      buffer = []
+      weight = 0
+    }
+  }
+
+  return new TransformStream<T, T[]>(
+    cancellable({
+      transform(chunk, controller) {
+        let chunkWeight: number
+        try {
+          chunkWeight = weigh(chunk)
+        } catch (error) {
+          clearTimer()
+          throw error
+        }
+
+        if (buffer.length > 0 && weight + chunkWeight > maxWeight) {
+          emit(controller)
+        }
+
+        buffer.push(chunk)
+        weight += chunkWeight
+
+        if (buffer.length >= size || weight >= maxWeight) {
+          emit(controller)
+        } else if (buffer.length === 1 && maxWait !== undefined) {
+          timer = setTimeout(() => {
+            timer = undefined
+            emit(controller)
+          }, maxWait)
+        }
+      },
+      flush(controller) {
+        emit(controller)
+      },
+      cancel() {
+        clearTimer()
+      }
+    }),
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * What a consumer of {@link broadcast} or {@link share} does when its buffer
+ * is full: `'block'` stops reading the source until it catches up, the other
+ * policies behave as described by {@link OverflowPolicy}
+ */
+export type ConsumerPolicy = 'block' | OverflowPolicy
+
+/**
+ * Options for each consumer of {@link broadcast} or {@link share}
+ */
+export interface ConsumerOptions {
+  /** What to do when the buffer is full. Defaults to `'block'` */
+  policy?: ConsumerPolicy
+  /** Maximum number of chunks buffered for the consumer. Defaults to `16` */
+  bufferSize?: number
+}
+
+/**
+ * Options for {@link broadcast}
+ */
+export interface BroadcastOptions extends ConsumerOptions {
+  /** The number of consumers, or the options of each consumer */
+  consumers: number | ConsumerOptions[]
+}
+
+/**
+ * Fan a stream out to several consumers
+ *
+ * Unlike `tee()`, each consumer has a bounded buffer with its own policy for
+ * when it falls behind: block the source (the default), drop the oldest or
+ * newest chunk, or error. The source is only cancelled once every consumer has
+ * cancelled.
+ *
+ * @category Combination
+ * @param stream - The stream to fan out
+ * @param countOrOptions - The number of consumers, or the options of each consumer
+ * @returns One ReadableStream per consumer
+ * @example
+ * ```ts
+ * const [archive, preview] = broadcast(events, {
+ *   consumers: [{ policy: 'block' }, { policy: 'drop-oldest', bufferSize: 100 }]
+ * });
+ * ```
+ */
+export function broadcast<T>(
+  stream: ReadableStream<T>,
+  countOrOptions: number | BroadcastOptions
+): ReadableStream<T>[] {
+  const { consumers, ...defaults } =
+    typeof countOrOptions === 'number'
+      ? { consumers: countOrOptions }
+      : countOrOptions
+  const options = Array.isArray(consumers)
+    ? consumers
+    : Array.from({ length: consumers }, () => ({}))
+  const shared = share(stream, defaults)
+  return options.map(consumer => shared.subscribe(consumer))
+}
+
+/**
+ * Decouple the speed of a producer from the speed of its consumer
+ *
+ * Up to `size` chunks are read ahead of the consumer, so that a bursty
+ * producer is not slowed down by a consumer that is momentarily busy, and the
+ * other way around.
+ *
+ * @category Transformation
+ * @param size - The number of chunks to buffer, or a queuing strategy such as {@link byteLengthStrategy}
+ * @returns A TransformStream that passes chunks through a buffer
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(buffer(100)).pipeThrough(map(save));
+ * ```
+ */
+export function buffer<T>(
+  size: number | QueuingStrategy<T>
+): TransformStream<T, T> {
+  return new TransformStream<T, T>(
+    {},
+    undefined,
+    typeof size === 'number' ? { highWaterMark: size } : size
+  )
+}
+
+/**
+ * The progress reported by {@link byteCounter}
+ */
+export interface ByteProgress {
+  /** The number of bytes passed through so far */
+  loaded: number
+  /** The expected number of bytes, when known */
+  total?: number
+}
+
+/**
+ * Options for {@link byteCounter}
+ */
+export interface ByteCounterOptions extends StrategyOptions<Uint8Array> {
+  /** The expected number of bytes, such as the `Content-Length` of a response */
+  total?: number
+  /** Called with the progress after every chunk */
+  onProgress?: (progress: ByteProgress) => void
+}
+
+/**
+ * The transform returned by {@link byteCounter}
+ */
+export interface ByteCounter extends TransformStream<Uint8Array, Uint8Array> {
+  /** Resolves with the number of bytes once the stream closes, or rejects if it fails */
+  bytes: Promise<number>
+}
+
+/**
+ * Count the bytes passing through a stream
+ *
+ * @category Encoding
+ * @param options - The expected number of bytes and the progress callback
+ * @returns A TransformStream that passes chunks unchanged, with the promise of the byte count
+ * @example
+ * ```ts
+ * const counter = byteCounter({
+ *   total: Number(response.headers.get('Content-Length')),
+ *   onProgress: ({ loaded, total }) => console.log(`${loaded}/${total}`)
+ * });
+ * await response.body.pipeThrough(counter).pipeTo(file);
+ * console.log(`Downloaded ${await counter.bytes} bytes`);
+ * ```
+ */
+export function byteCounter({
+  total,
+  onProgress,
+  writableStrategy,
+  readableStrategy
+}: ByteCounterOptions = {}): ByteCounter {
+  const { promise: bytes, resolve, reject } = deferred<number>()
+  let loaded = 0
+
+  const transform = new TransformStream<Uint8Array, Uint8Array>(
+    cancellable({
+      transform(chunk, controller) {
+        loaded += chunk.byteLength
+        controller.enqueue(chunk)
+        onProgress?.({ loaded, total })
+      },
+      flush() {
+        resolve(loaded)
+      },
+      cancel: reject
+    }),
+    writableStrategy,
+    readableStrategy
+  )
+  return Object.assign(transform, { bytes })
+}
+
+/**
+ * A queuing strategy that measures text chunks in bytes
+ *
+ * Unlike `ByteLengthQueuingStrategy`, strings are accepted too and measured in
+ * UTF-16 code units. It is the default writable strategy of the operators that
+ * accept {@link TextChunk} input.
+ *
+ * @category Encoding
+ * @param highWaterMark - The number of bytes to queue before applying backpressure. Defaults to `65536`
+ * @returns A queuing strategy for text chunks
+ * @example
+ * ```ts
+ * const lines = response.body.pipeThrough(
+ *   splitLines({ writableStrategy: byteLengthStrategy(1024 * 1024) })
+ * );
+ * ```
+ */
+export function byteLengthStrategy(
+  highWaterMark = 65_536
+): QueuingStrategy<TextChunk> {
+  return {
+    highWaterMark,
+    size: chunk => (typeof chunk === 'string' ? chunk.length : chunk.byteLength)
+  }
+}
+
+/**
+ * Recover from an error in the source stream
+ *
+ * When the source errors, `handler` is called with the error and its result
+ * replaces the rest of the stream: a ReadableStream is emitted chunk by chunk,
+ * any other value is emitted as a single chunk. If the handler throws, the
+ * stream errors with that error instead.
+ *
+ * @category Transformation
+ * @param handler - The function returning the replacement for the failed stream
+ * @param options - The queuing strategies of the operator and a signal aborting it
+ * @returns A TransformStream that passes chunks through and recovers from errors
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(catchError(() => fallback));
+ * // If readable emits 1, 2 then errors and fallback emits 3, the result will be [1, 2, 3]
+ * ```
+ */
+export function catchError<T, R = T>(
+  handler: (
+    error: unknown,
+    signal: AbortSignal
+  ) => SyncOrAsync<R | ReadableStream<R>>,
+  {
+    writableStrategy,
+    readableStrategy,
+    signal
+  }: StrategyOptions<T, T | R> & SignalOptions = {}
+): TransformStream<T, T | R> {
+  let controller!: ReadableStreamDefaultController<T | R>
+  let sinkController!: WritableStreamDefaultController
+  let demand: (() => void) | undefined
+  // Aborted when the output is cancelled or the signal of the options is
+  const replacing = new AbortController()
+  const onAbort = () => {
+    replacing.abort(signal!.reason)
+    controller.error(signal!.reason)
+    sinkController.error(signal!.reason)
+    demand?.()
+  }
+
+  async function push(chunk: T | R) {
+    controller.enqueue(chunk)
+    if (controller.desiredSize! <= 0) {
+      await new Promise<void>(resolve => {
+        demand = resolve
+      })
+    }
+  }
+
+  const readable = new ReadableStream<T | R>(
+    {
+      start(c) {
+        controller = c
+      },
+      pull() {
+        demand?.()
+        demand = undefined
+      },
+      cancel(reason) {
+        sinkController.error(reason)
+        replacing.abort(reason)
+        demand?.()
+      }
+    },
+    readableStrategy
+  )
+
+  const writable = new WritableStream<T>(
+    {
+      start(c) {
+        sinkController = c
+      },
+      write: push,
+      close() {
+        signal?.removeEventListener('abort', onAbort)
+        controller.close()
+      },
+      async abort(reason) {
+        try {
+          const replacement = await handler(reason, replacing.signal)
+          if (replacement instanceof ReadableStream) {
+            await replacement.pipeTo(new WritableStream({ write: push }), {
+              signal: replacing.signal
+            })
+          } else {
+            controller.enqueue(replacement)
+          }
+          controller.close()
+        } catch (error) {
+          if (!replacing.signal.aborted) {
+            controller.error(error)
+          }
+        } finally {
+          signal?.removeEventListener('abort', onAbort)
+        }
+      }
+    },
+    writableStrategy
+  )
+
+  if (signal?.aborted) {
+    onAbort()
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true })
+  }
+  return { readable, writable }
+}
+
+/**
+ * Persists the offsets recorded by {@link checkpoint} for {@link resumable}
+ */
+export interface CheckpointStore<O = unknown> {
+  /** Read the offset saved under `key`, or `undefined` if there is none */
+  load(key: string): SyncOrAsync<O | undefined>
+  /** Save the offset of the last acknowledged chunk under `key` */
+  save(key: string, offset: O): SyncOrAsync<void>
+}
+
+/**
+ * Options for {@link checkpoint}
+ */
+export interface CheckpointOptions<T, O> extends StrategyOptions<T> {
+  /** The store the offsets are saved to */
+  store: CheckpointStore<O>
+  /** The key the offsets are saved under, shared with {@link resumable} */
+  key: string
+  /** Save the offset every this many chunks, and when the stream closes. Defaults to `1` */
+  every?: number
+  /** Compute the offset to resume from after a chunk, such as a cursor. Defaults to the number of chunks acknowledged since the start of the source, for numeric offsets */
+  offset?: (chunk: T) => O
+  /** The stream of {@link resumable} the chunks come from. The default offset then counts from the offset it last opened its source from, so chunks emitted again after a retry are not counted twice */
+  source?: ResumableStream<unknown, O>
+}
+
+/**
+ * Count the acknowledged chunks from the offset loaded from the store, or from
+ * the offset `source` last opened its source from
+ */
+async function chunkCounter<T>({
+  store,
+  key,
+  source
+}: CheckpointOptions<T, number>): Promise<() => number> {
+  const loaded = (await store.load(key)) ?? 0
+  let index = 0
+  return () => {
+    const opened = source?.openedBefore(index)
+    const offset = opened
+      ? (opened.offset ?? 0) + index - opened.emitted + 1
+      : loaded + index + 1
+    index++
+    return offset
+  }
+}
+
+/**
+ * Whether {@link checkpoint} counts the chunks, rather than computing the
+ * offsets from them
+ */
+function isCounting<T, O>(
+  options:
+    | CheckpointOptions<T, number>
+    | (CheckpointOptions<T, O> & { offset: (chunk: T) => O })
+): options is CheckpointOptions<T, number> {
+  return options.offset === undefined
+}
+
+/**
+ * Record the progress of a pipeline to resume it with {@link resumable}
+ *
+ * A chunk is acknowledged once it passes through the transform, so place it
+ * after the last step whose work must not be lost, such as the one writing to
+ * a database. The offset of the last acknowledged chunk is saved every `every`
+ * chunks and when the stream closes, before the chunks after it are
+ * processed, but not when the stream errors or is cancelled.
+ *
+ * Delivery is at least once: after a crash, the chunks acknowledged since the
+ * last save, and any chunk still in flight, are processed again. Keep the
+ * steps before the checkpoint idempotent, or lower `every` to shrink the
+ * window.
+ *
+ * By default the offset is the number of chunks acknowledged, counted from
+ * the offset loaded from the store, which suits pipelines that emit one chunk
+ * per source chunk and needs numeric offsets. Pass the stream of
+ * {@link resumable} as `source` so the count restarts from the offset it
+ * reopened its source from after a retry. Pass `offset` to derive it from the
+ * chunks instead, for example after a `batch` or to save a cursor.
+ *
+ * @category Checkpointing
+ * @param options - The store, key and frequency of the checkpoints
+ * @returns A TransformStream that passes chunks through and saves their offset
+ * @example
+ * ```ts
+ * import { fileCheckpointStore } from 'web-streams-utils/interop';
+ *
+ * const store = fileCheckpointStore<number>('./checkpoints.json');
+ * const rows = resumable(offset => fromIterable(all.slice(offset ?? 0)), {
+ *   store,
+ *   key: 'import',
+ *   retry: { attempts: 3 }
+ * });
+ * await rows
+ *   .pipeThrough(mapConcurrent(insert, { concurrency: 8 }))
+ *   .pipeThrough(checkpoint({ store, key: 'import', every: 100, source: rows }))
+ *   .pipeTo(new WritableStream());
+ * ```
+ */
+export function checkpoint<T>(
+  options: CheckpointOptions<T, number>
+): TransformStream<T, T>
+export function checkpoint<T, O>(
+  options: CheckpointOptions<T, O> & { offset: (chunk: T) => O }
+): TransformStream<T, T>
+export function checkpoint<T, O>(
+  options:
+    | CheckpointOptions<T, number>
+    | (CheckpointOptions<T, O> & { offset: (chunk: T) => O })
+): TransformStream<T, T> {
+  if (isCounting(options)) {
+    return checkpointTransform(options, () => chunkCounter(options))
+  }
+  const { offset } = options
+  return checkpointTransform(options, async () => offset)
+}
+
+/**
+ * Save the offsets of the chunks computed by the function resolved on start
+ */
+function checkpointTransform<T, O>(
+  {
+    store,
+    key,
+    every = 1,
+    writableStrategy,
+    readableStrategy
+  }: CheckpointOptions<T, O>,
+  start: () => Promise<(chunk: T) => O>
+): TransformStream<T, T> {
+  if (!Number.isInteger(every) || every < 1) {
+    throw new RangeError('every must be a positive integer')
+  }
+  let offset!: (chunk: T) => O
+  let acknowledged = 0
+  let last: O | undefined
+
+  async function save() {
+    if (last !== undefined) {
+      await store.save(key, last)
+      last = undefined
+    }
+  }
+
+  return new TransformStream<T, T>(
+    {
+      async start() {
+        offset = await start()
+      },
+      async transform(chunk, controller) {
+        controller.enqueue(chunk)
+        last = offset(chunk)
+        if (++acknowledged % every === 0) {
+          await save()
+        }
+      },
+      flush: save
+    },
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Combine the latest chunk of every stream into tuples
+ *
+ * Nothing is emitted until every stream has emitted once; after that, each
+ * chunk from any stream emits a tuple with the latest chunk of every stream.
+ * The result closes once every stream is done, or as soon as a stream closes
+ * without ever emitting.
+ *
+ * @category Combination
+ * @param streams - The streams to combine
+ * @returns A ReadableStream of tuples of the latest chunks
+ * @example
+ * ```ts
+ * const stream = combineLatest(temperatures, humidities);
+ * // ReadableStream<[number, number]>
+ * ```
+ */
+export function combineLatest<S extends ReadableStream<unknown>[]>(
+  ...streams: S
+): ReadableStream<StreamValues<S>> {
+  const readers = streams.map(stream => stream.getReader())
+  const latest: unknown[] = new Array(streams.length)
+  const seen = new Set<number>()
+  const active = new Set(readers.keys())
+  const reading = new Set<number>()
+  let finished = false
+  let controller!: ReadableStreamDefaultController<StreamValues<S>>
+  let notify: (() => void) | undefined
+
+  function wake() {
+    notify?.()
+    notify = undefined
+  }
+
+  function end(error?: unknown) {
+    finished = true
+    if (error === undefined) {
+      controller.close()
+    } else {
+      controller.error(error)
+    }
+    cancelReaders(
+      [...active].map(index => readers[index]),
+      error
+    )
+    wake()
+  }
+
+  function read(index: number) {
+    reading.add(index)
+    readers[index].read().then(
+      ({ done, value }) => {
+        reading.delete(index)
+        if (finished) return
+        if (done) {
+          active.delete(index)
+          readers[index].releaseLock()
+          if (!seen.has(index) || active.size === 0) {
+            end()
+          }
+          return
+        }
+
+        latest[index] = value
+        seen.add(index)
+        if (seen.size === readers.length) {
+          controller.enqueue([...latest] as StreamValues<S>)
+          wake()
+        } else {
+          read(index)
+        }
+      },
+      error => {
+        reading.delete(index)
+        active.delete(index)
+        if (!finished) {
+          end(error)
+        }
+      }
+    )
+  }
+
+  return new ReadableStream<StreamValues<S>>({
+    start(c) {
+      controller = c
+    },
+    pull() {
+      if (readers.length === 0) {
+        end()
+      }
+      if (finished) return
+      active.forEach(index => {
+        if (!reading.has(index)) {
+          read(index)
+        }
+      })
+      return new Promise<void>(resolve => {
+        notify = resolve
+      })
+    },
+    async cancel(reason) {
+      finished = true
+      wake()
+      await cancelReaders(
+        [...active].map(index => readers[index]),
+        reason
+      )
+    }
+  })
+}
+
+/**
+ * Remove null and undefined values from a stream
+ *
+ * @category Transformation
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that filters out null and undefined values
+ * @example
+ * ```ts
+ * const readable = new ReadableStream({
+ *   start(controller) {
+ *     const items = [1, null, 2, undefined, 3]
+ *     items.forEach(item => {
+ *       controller.enqueue(item)
+ *     })
+ *   }
+ * })
+ * const stream = readable.pipeThrough(compact());
+ * // If readable emits [1, null, 2, undefined, 3], the result will be [1, 2, 3]
+ * ```
+ */
+export function compact<T>(
+  options: StrategyOptions<T, NonNullable<T>> = {}
+): TransformStream<T, NonNullable<T>> {
+  return new TransformStream(
+    {
+      async transform(chunk, controller) {
+        if (chunk !== null && chunk !== undefined) {
+          controller.enqueue(chunk)
+        }
+      }
+    },
+    options.writableStrategy,
+    options.readableStrategy
+  )
+}
+
+/**
+ * Fuse several transforms into a single TransformStream
+ *
+ * @category Transformation
+ * @param transforms - The transforms to apply, in order
+ * @returns A TransformStream that pipes chunks through every transform
+ * @example
+ * ```ts
+ * const evenSquares = compose(
+ *   filter((n: number) => n % 2 === 0),
+ *   map(n => n * n)
+ * );
+ * const stream = readable.pipeThrough(evenSquares);
+ * ```
+ */
+export function compose<A, B>(ab: TransformStream<A, B>): TransformStream<A, B>
+export function compose<A, B, C>(
+  ab: TransformStream<A, B>,
+  bc: TransformStream<B, C>
+): TransformStream<A, C>
+export function compose<A, B, C, D>(
+  ab: TransformStream<A, B>,
+  bc: TransformStream<B, C>,
+  cd: TransformStream<C, D>
+): TransformStream<A, D>
+export function compose<A, B, C, D, E>(
+  ab: TransformStream<A, B>,
+  bc: TransformStream<B, C>,
+  cd: TransformStream<C, D>,
+  de: TransformStream<D, E>
+): TransformStream<A, E>
+export function compose<A, B, C, D, E, F>(
+  ab: TransformStream<A, B>,
+  bc: TransformStream<B, C>,
+  cd: TransformStream<C, D>,
+  de: TransformStream<D, E>,
+  ef: TransformStream<E, F>
+): TransformStream<A, F>
+export function compose<A, B, C, D, E, F, G>(
+  ab: TransformStream<A, B>,
+  bc: TransformStream<B, C>,
+  cd: TransformStream<C, D>,
+  de: TransformStream<D, E>,
+  ef: TransformStream<E, F>,
+  fg: TransformStream<F, G>
+): TransformStream<A, G>
+export function compose(
+  ...transforms: TransformStream<unknown, unknown>[]
+): TransformStream<unknown, unknown>
+export function compose(
+  ...transforms: TransformStream<unknown, unknown>[]
+): TransformStream<unknown, unknown> {
+  if (transforms.length === 0) {
+    return new TransformStream()
+  }
+
+  const [first, ...rest] = transforms
+  return {
+    writable: first.writable,
+    readable: rest.reduce(
+      (readable, transform) => readable.pipeThrough(transform),
+      first.readable
+    )
+  }
+}
+
+/**
+ * Concatenate streams one after the other
+ *
+ * Each stream is only read once the previous one is done, and cancelling the
+ * result cancels the current stream and every stream not read yet.
+ *
+ * @category Combination
+ * @param streams - The streams to concatenate
+ * @returns A ReadableStream that emits every chunk of each stream in turn
+ * @example
+ * ```ts
+ * const stream = concat(header, body, footer);
+ * ```
+ */
+export function concat<S extends ReadableStream<unknown>[]>(
+  ...streams: S
+): ReadableStream<StreamValues<S>[number]> {
+  type T = StreamValues<S>[number]
+  let index = 0
+  let reader: ReadableStreamDefaultReader<T> | undefined
+
+  function cancelRemaining(reason: unknown) {
+    const remaining = streams.slice(index + 1)
+    return Promise.all([
+      reader ? cancelReaders([reader], reason) : streams[index]?.cancel(reason),
+      ...remaining.map(stream => stream.cancel(reason).catch(() => {}))
+    ])
+  }
+
+  return new ReadableStream<T>({
+    async pull(controller) {
+      while (index < streams.length) {
+        reader ??= streams[index].getReader() as ReadableStreamDefaultReader<T>
+        const result = await reader.read().catch(async error => {
+          reader = undefined
+          index++
+          await cancelRemaining(error)
+          throw error
+        })
+
+        if (!result.done) {
+          controller.enqueue(result.value)
+          return
+        }
+
+        reader.releaseLock()
+        reader = undefined
+        index++
+      }
+      controller.close()
+    },
+    async cancel(reason) {
+      await cancelRemaining(reason)
+    }
+  })
+}
+
+/**
+ * Options for {@link concatBytes}
+ */
+export interface ConcatBytesOptions extends StrategyOptions<Uint8Array> {
+  /** Maximum number of bytes to buffer before erroring with a {@link LimitExceededError}. Defaults to `Infinity` */
+  maxBytes?: number
+}
+
+/**
+ * Merge every chunk of a byte stream into a single buffer
+ *
+ * @category Encoding
+ * @param options - The maximum number of bytes to buffer
+ * @returns A TransformStream that emits all the bytes as one chunk when the stream closes
+ * @example
+ * ```ts
+ * const [body] = await toArray(
+ *   response.body.pipeThrough(concatBytes({ maxBytes: 1024 * 1024 }))
+ * );
+ * ```
+ */
+export function concatBytes({
+  maxBytes = Infinity,
+  writableStrategy = byteLengthStrategy(),
+  readableStrategy
+}: ConcatBytesOptions = {}): TransformStream<Uint8Array, Uint8Array> {
+  const chunks: Uint8Array[] = []
+  let length = 0
+
+  return new TransformStream(
+    {
+      transform(chunk) {
+        length += chunk.byteLength
+        if (length > maxBytes) {
+          throw new LimitExceededError(
+            `Stream exceeded the limit of ${maxBytes} bytes`,
+            { operator: 'concatBytes', index: chunks.length, limit: maxBytes }
+          )
+        }
+        chunks.push(chunk)
+      },
+      flush(controller) {
+        controller.enqueue(joinBytes(chunks))
+      }
+    },
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Count the chunks of a stream
+ *
+ * @category Consumption
+ * @param stream - The readable stream to count
+ * @param options - The abort signal and the maximum number of chunks to read
+ * @returns A promise that resolves to the number of chunks
+ * @example
+ * ```ts
+ * const lines = await count(file.pipeThrough(splitLines()));
+ * ```
+ */
+export async function count<T>(
+  stream: ReadableStream<T>,
+  options?: ConsumeOptions
+): Promise<number> {
+  let total = 0
+  await consume(
+    'count',
+    stream,
+    () => {
+      total++
+    },
+    options
+  )
+  return total
+}
+
+/**
+ * Emit a chunk only once no other chunk has arrived for a given time
+ *
+ * The last pending chunk is emitted immediately when the source closes.
+ *
+ * @category Transformation
+ * @param ms - The quiet period in milliseconds
+ * @param options - The clock to schedule timers with
+ * @returns A TransformStream that emits the last chunk of each burst
+ * @example
+ * ```ts
+ * const stream = keystrokes.pipeThrough(debounce(300));
+ * ```
+ */
+export function debounce<T>(
+  ms: number,
+  {
+    clock = systemClock,
+    writableStrategy,
+    readableStrategy
+  }: TimerOptions & StrategyOptions<T> = {}
+): TransformStream<T, T> {
+  let timer: unknown
+  let pending: { chunk: T } | undefined
+
+  function clearTimer() {
+    if (timer !== undefined) {
+      clock.clearTimeout(timer)
+      timer = undefined
+    }
+  }
+
+  return new TransformStream<T, T>(
+    cancellable({
+      transform(chunk, controller) {
+        clearTimer()
+        pending = { chunk }
+        timer = clock.setTimeout(() => {
+          timer = undefined
+          controller.enqueue(pending!.chunk)
+          pending = undefined
+        }, ms)
+      },
+      flush(controller) {
+        clearTimer()
+        if (pending) {
+          controller.enqueue(pending.chunk)
+        }
+      },
+      cancel: clearTimer
+    }),
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Compress a byte stream with the deflate format (zlib)
+ *
+ * @category Encoding
+ * @returns A `CompressionStream` turning bytes into deflate-compressed bytes
+ * @example
+ * ```ts
+ * const compressed = bytes.pipeThrough(deflate());
+ * ```
+ */
+export function deflate(): TransformStream<Uint8Array, Uint8Array> {
+  return new CompressionStream('deflate') as TransformStream<
+    Uint8Array,
+    Uint8Array
+  >
+}
+
+/**
+ * Shift every chunk in time by a given delay
+ *
+ * @category Transformation
+ * @param ms - The delay in milliseconds
+ * @param options - The clock to schedule timers with
+ * @returns A TransformStream that emits each chunk `ms` milliseconds after it arrived
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(delay(1000));
+ * ```
+ */
+export function delay<T>(
+  ms: number,
+  {
+    clock = systemClock,
+    writableStrategy,
+    readableStrategy
+  }: TimerOptions & StrategyOptions<T> = {}
+): TransformStream<T, T> {
+  const timers = new Set<unknown>()
+  let idle: (() => void) | undefined
+
+  return new TransformStream<T, T>(
+    cancellable({
+      transform(chunk, controller) {
+        const timer = clock.setTimeout(() => {
+          timers.delete(timer)
+          controller.enqueue(chunk)
+          if (timers.size === 0) {
+            idle?.()
+          }
+        }, ms)
+        timers.add(timer)
+      },
+      flush() {
+        if (timers.size > 0) {
+          return new Promise<void>(resolve => {
+            idle = resolve
+          })
+        }
+      },
+      cancel() {
+        timers.forEach(timer => clock.clearTimeout(timer))
+        timers.clear()
+      }
+    }),
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Options for {@link distinct}
+ */
+export interface DistinctOptions extends TimerOptions {
+  /** Maximum number of keys remembered, forgetting the least recently seen first. Defaults to `Infinity` */
+  maxKeys?: number
+  /** How long in milliseconds a key is remembered after it was last seen. Defaults to `Infinity` */
+  ttlMs?: number
+}
+
+/**
+ * Drop chunks whose key has already been seen
+ *
+ * Use `maxKeys` and `ttlMs` to bound the memory used on infinite streams: a key
+ * that was forgotten lets its next chunk through again.
+ *
+ * @category Transformation
+ * @param keyFn - A function that computes the key of a chunk. Defaults to the chunk itself
+ * @param options - The limits on the remembered keys, how to retry a failed `keyFn`, and a signal aborting it
+ * @returns A TransformStream that emits the first chunk of each key
+ * @example
+ * ```ts
+ * const stream = events.pipeThrough(
+ *   distinct(event => event.id, { maxKeys: 10_000, ttlMs: 60_000 })
+ * );
+ * ```
+ */
+export function distinct<T, K = T>(
+  keyFn: (chunk: T, signal: AbortSignal) => SyncOrAsync<K> = chunk =>
+    chunk as unknown as K,
+  {
+    maxKeys = Infinity,
+    ttlMs = Infinity,
+    clock = systemClock,
+    ...options
+  }: DistinctOptions & OperatorOptions<T> = {}
+): TransformStream<T, T> {
+  // Keys in order of last sighting, with the time they were last seen
+  const seen = new Map<K, number>()
+
+  return callbackTransform(
+    'distinct',
+    keyFn,
+    options,
+    async (chunk, computeKey, controller) => {
+      const key = await computeKey(chunk)
+      const now = clock.now()
+      for (const [oldest, time] of seen) {
+        if (now - time < ttlMs) break
+        seen.delete(oldest)
+      }
+
+      const duplicate = seen.has(key)
+      seen.delete(key)
+      seen.set(key, now)
+      if (seen.size > maxKeys) {
+        seen.delete(seen.keys().next().value as K)
+      }
+      if (!duplicate) {
+        controller.enqueue(chunk)
+      }
+    }
+  )
+}
+
+/**
+ * Drop chunks equal to the chunk right before them
+ *
+ * @category Transformation
+ * @param equals - A function that compares two consecutive chunks. Defaults to `Object.is`
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that only emits chunks that differ from the previous one
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(distinctUntilChanged());
+ * // If readable emits [1, 1, 2, 2, 1], the result will be [1, 2, 1]
+ * ```
+ */
+export function distinctUntilChanged<T>(
+  equals: (previous: T, current: T) => boolean = Object.is,
+  options: StrategyOptions<T> = {}
+): TransformStream<T, T> {
+  let previous: { chunk: T } | undefined
+
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        if (!previous || !equals(previous.chunk, chunk)) {
+          controller.enqueue(chunk)
+        }
+        previous = { chunk }
+      }
+    },
+    options.writableStrategy,
+    options.readableStrategy
+  )
+}
+
+/**
+ * Error thrown when a stream ends without the chunk an operation needs, such
+ * as {@link reduce} without an initial value on an empty stream
+ *
+ * @category Errors
+ */
+export class EmptyStreamError extends StreamOperatorError {
+  name = 'EmptyStreamError'
+
+  constructor(
+    message = 'Stream is empty',
+    options: StreamOperatorErrorOptions = { operator: 'reduce' }
+  ) {
+    super(message, options)
+  }
+}
+
+/**
+ * An event written by {@link encodeSSE}
+ */
+export interface ServerSentEventInit {
+  /** The event type, left out for the default `'message'` type */
+  event?: string
+  /** The data of the event. Data that is not a string is serialized as JSON */
+  data?: unknown
+  /** The event ID, which the client sends back when reconnecting */
+  id?: string
+  /** The reconnection time to set on the client, in milliseconds */
+  retry?: number
+  /** A comment, ignored by clients */
+  comment?: string
+}
+
+/**
+ * Options for {@link encodeSSE}
+ */
+export interface EncodeSSEOptions
+  extends TimerOptions, StrategyOptions<ServerSentEventInit | string, string> {
+  /** Send a comment after this many milliseconds without an event, so proxies keep the connection open */
+  heartbeat?: number
+}
+
+/**
+ * Encode events as a Server-Sent Events stream
+ *
+ * Strings are sent as the data of a `'message'` event, and multi-line data is
+ * split into several `data` lines. Event types and IDs containing line breaks
+ * error the stream, as does data that JSON cannot represent, such as a
+ * function.
+ *
+ * @category Encoding
+ * @param options - The heartbeat interval and the clock to schedule it with
+ * @returns A TransformStream that emits the text of each event
+ * @example
+ * ```ts
+ * const body = tokens
+ *   .pipeThrough(map(token => ({ event: 'token', data: token })))
+ *   .pipeThrough(encodeSSE({ heartbeat: 15_000 }))
+ *   .pipeThrough(new TextEncoderStream());
+ * return new Response(body, {
+ *   headers: { 'Content-Type': 'text/event-stream' }
+ * });
+ * ```
+ */
+export function encodeSSE({
+  heartbeat,
+  clock = systemClock,
+  writableStrategy,
+  readableStrategy
+}: EncodeSSEOptions = {}): TransformStream<
+  ServerSentEventInit | string,
+  string
+> {
+  let timer: unknown
+
+  function clearTimer() {
+    if (timer !== undefined) {
+      clock.clearTimeout(timer)
+      timer = undefined
+    }
+  }
+
+  function startTimer(controller: TransformStreamDefaultController<string>) {
+    clearTimer()
+    if (heartbeat === undefined) return
+    timer = clock.setTimeout(() => {
+      controller.enqueue(':\n\n')
+      startTimer(controller)
+    }, heartbeat)
+  }
+
+  function singleLine(name: string, value: string): string {
+    if (/[\r\n]/.test(value) || (name === 'id' && value.includes('\0'))) {
+      throw new TypeError(`Invalid ${name}: ${JSON.stringify(value)}`)
+    }
+    return `${name}: ${value}\n`
+  }
+
+  function encode(message: ServerSentEventInit | string): string {
+    const { event, data, id, retry, comment } =
+      typeof message === 'string' ? { data: message } : message
+    const lines = (text: string, prefix: string) =>
+      text
+        .split(/\r\n|\r|\n/)
+        .map(line => `${prefix}${line}\n`)
+        .join('')
+
+    let text = comment === undefined ? '' : lines(comment, ': ')
+    if (event !== undefined) text += singleLine('event', event)
+    if (id !== undefined) text += singleLine('id', id)
+    if (retry !== undefined) {
+      if (!Number.isInteger(retry) || retry < 0) {
+        throw new RangeError('retry must be a non-negative integer')
+      }
+      text += `retry: ${retry}\n`
+    }
+    if (data !== undefined) {
+      const json = typeof data === 'string' ? data : JSON.stringify(data)
+      if (json === undefined) {
+        throw new TypeError(
+          `Cannot serialize data of type ${typeof data} as JSON`
+        )
+      }
+      text += lines(json, 'data: ')
+    }
+    return `${text}\n`
+  }
+
+  return new TransformStream<ServerSentEventInit | string, string>(
+    cancellable({
+      start: startTimer,
+      transform(message, controller) {
+        clearTimer()
+        controller.enqueue(encode(message))
+        startTimer(controller)
+      },
+      flush: clearTimer,
+      cancel: clearTimer
+    }),
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Check whether every chunk of a stream satisfies a predicate
+ *
+ * The stream is cancelled as soon as a chunk fails the predicate.
+ *
+ * @category Consumption
+ * @param stream - The readable stream to check
+ * @param predicate - The predicate to test each chunk with
+ * @param options - The abort signal and the maximum number of chunks to read
+ * @returns A promise that resolves to `true` if every chunk satisfies the predicate
+ * @example
+ * ```ts
+ * const valid = await every(records, record => record.id !== undefined);
+ * ```
+ */
+export async function every<T>(
+  stream: ReadableStream<T>,
+  predicate: (chunk: T) => SyncOrAsync<boolean>,
+  options?: ConsumeOptions
+): Promise<boolean> {
+  let result = true
+  await consume(
+    'every',
+    stream,
+    async chunk => {
+      if (!(await predicate(chunk))) {
+        result = false
+        return true
+      }
+    },
+    options
+  )
+  return result
+}
+
+/**
+ * Filter function for filtering stream chunks
+ *
+ * @category Transformation
+ * @param predicate - The predicate function to determine which chunks to keep
+ * @param options - How to retry a failed predicate
+ * @returns A TransformStream that only passes chunks that satisfy the predicate
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(filter(x => x > 10));
+ * ```
+ */
+export function filter<T>(
+  predicate: (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>,
+  options: OperatorOptions<T, T> = {}
+): TransformStream<T, T> {
+  return callbackTransform(
+    'filter',
+    predicate,
+    options,
+    async (chunk, test, controller) => {
+      if (await test(chunk)) {
+        controller.enqueue(chunk)
+      }
+    }
+  )
+}
+
+/**
+ * Filter stream chunks with an async predicate, running several predicates
+ * concurrently
+ *
+ * @category Transformation
+ * @param predicate - The predicate function to determine which chunks to keep
+ * @param options - The concurrency limit and whether to preserve input order
+ * @returns A TransformStream that only passes chunks that satisfy the predicate
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(
+ *   filterConcurrent(async id => exists(id), { concurrency: 4 })
+ * );
+ * ```
+ */
+export function filterConcurrent<T>(
+  predicate: (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>,
+  options: ConcurrencyOptions<T, T>
+): TransformStream<T, T> {
+  return concurrentTransform<T, boolean, T>(
+    'filterConcurrent',
+    predicate,
+    (controller, keep, chunk) => {
+      if (keep) {
+        controller.enqueue(chunk)
+      }
+    },
+    options
+  )
+}
+
+/**
+ * Find the first chunk of a stream satisfying a predicate
+ *
+ * The stream is cancelled as soon as a chunk is found.
+ *
+ * @category Consumption
+ * @param stream - The readable stream to search
+ * @param predicate - The predicate to test each chunk with
+ * @param options - The abort signal and the maximum number of chunks to read
+ * @returns A promise that resolves to the first matching chunk, or `undefined`
+ * @example
+ * ```ts
+ * const admin = await find(users, user => user.role === 'admin');
+ * ```
+ */
+export async function find<T>(
+  stream: ReadableStream<T>,
+  predicate: (chunk: T) => SyncOrAsync<boolean>,
+  options?: ConsumeOptions
+): Promise<T | undefined> {
+  let found: T | undefined
+  await consume(
+    'find',
+    stream,
+    async chunk => {
+      if (await predicate(chunk)) {
+        found = chunk
+        return true
+      }
+    },
+    options
+  )
+  return found
+}
+
+/**
+ * Read the first chunk of a stream and cancel it
+ *
+ * @category Consumption
+ * @param stream - The readable stream to read
+ * @param options - The abort signal
+ * @returns A promise that resolves to the first chunk, or `undefined` if the stream is empty
+ * @example
+ * ```ts
+ * const header = await first(file.pipeThrough(splitLines()));
+ * ```
+ */
+export function first<T>(
+  stream: ReadableStream<T>,
+  options?: ConsumeOptions
+): Promise<T | undefined> {
+  return find(stream, () => true, options)
+}
+
+/**
+ * Map and flatten stream chunks
+ *
+ * @category Transformation
+ * @param fn - The transformation function that returns an array
+ * @param options - How to retry a failed transformation
+ * @returns A TransformStream that applies the transformation and flattens the result
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(flatMap(word => word.split('')));
+ * ```
+ */
+export function flatMap<T, R>(
+  fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R[]>,
+  options: OperatorOptions<T, R> = {}
+): TransformStream<T, R> {
+  return callbackTransform(
+    'flatMap',
+    fn,
+    options,
+    async (chunk, run, controller) => {
+      for (const item of await run(chunk)) {
+        controller.enqueue(item)
+      }
+    }
+  )
+}
+
+/**
+ * Map and flatten stream chunks, running several transformations concurrently
+ *
+ * @category Transformation
+ * @param fn - The transformation function that returns an array
+ * @param options - The concurrency limit and whether to preserve input order
+ * @returns A TransformStream that applies the transformation and flattens the result
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(
+ *   flatMapConcurrent(async url => fetchLinks(url), { concurrency: 4 })
+ * );
+ * ```
+ */
+export function flatMapConcurrent<T, R>(
+  fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R[]>,
+  options: ConcurrencyOptions<T, R>
+): TransformStream<T, R> {
+  return concurrentTransform<T, R[], R>(
+    'flatMapConcurrent',
+    fn,
+    (controller, items) => {
+      items.forEach(item => {
+        controller.enqueue(item)
+      })
+    },
+    options
+  )
+}
+
+/**
+ * Flatten a stream of arrays into individual chunks
+ *
+ * @category Transformation
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that flattens arrays into individual chunks
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(flatten());
+ * // If readable emits [[1, 2], [3, 4]], the result will be [1, 2, 3, 4]
+ * ```
+ */
+export function flatten<T>(
+  options: StrategyOptions<T[], T> = {}
+): TransformStream<T[], T> {
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        chunk.forEach(item => {
+          controller.enqueue(item)
+        })
+      }
+    },
+    options.writableStrategy,
+    options.readableStrategy
+  )
+}
+
+/**
+ * Options for {@link forEach}
+ */
+export interface ForEachOptions extends ConsumeOptions {
+  /** Maximum number of callbacks running at the same time. Defaults to `1` */
+  concurrency?: number
+}
+
+/**
+ * Run a function for every chunk of a stream
+ *
+ * The first rejection cancels the stream and rejects the returned promise.
+ *
+ * @category Consumption
+ * @param stream - The readable stream to consume
+ * @param fn - The function to run for each chunk
+ * @param options - The concurrency limit, abort signal and maximum number of chunks
+ * @returns A promise that resolves once every chunk has been processed
+ * @example
+ * ```ts
+ * await forEach(users, user => sendEmail(user), { concurrency: 8 });
+ * ```
+ */
+export async function forEach<T>(
+  stream: ReadableStream<T>,
+  fn: (chunk: T) => SyncOrAsync<void>,
+  { concurrency = 1, ...options }: ForEachOptions = {}
+): Promise<void> {
+  if (!(concurrency >= 1)) {
+    throw new RangeError('concurrency must be a positive number')
+  }
+
+  const inFlight = new Set<Promise<void>>()
+  let failure: { error: unknown } | undefined
+
+  await consume(
+    'forEach',
+    stream,
+    async chunk => {
+      const promise = (async () => {
+        try {
+          await fn(chunk)
+        } catch (error) {
+          failure ??= { error }
+        }
+      })()
+      inFlight.add(promise)
+      promise.then(() => inFlight.delete(promise))
+
+      while (inFlight.size >= concurrency && !failure) {
+        await Promise.race(inFlight)
+      }
+      if (failure) throw failure.error
+    },
+    options
+  )
+  await Promise.all(inFlight)
+  if (failure) throw failure.error
+}
+
+/**
+ * What to do with a new chunk when a buffer is full
+ *
+ * - `'drop-oldest'`: discard the oldest buffered chunk to make room
+ * - `'drop-newest'`: discard the new chunk
+ * - `'error'`: error the stream
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error'
+
+/**
+ * Options for the creators adapting push-based sources
+ */
+export interface PushSourceOptions extends SignalOptions {
+  /** Maximum number of chunks buffered while the stream is not read. Defaults to `1024` */
+  bufferSize?: number
+  /** What to do when the buffer is full. Defaults to `'error'` */
+  overflow?: OverflowPolicy
+}
+
+/**
+ * The functions handed to the `subscribe` callback of {@link fromCallback}
+ */
+export interface Emitter<T> {
+  /** Emit a chunk */
+  next(value: T): void
+  /** Error the stream */
+  error(reason: unknown): void
+  /** Close the stream */
+  complete(): void
+}
+
+/**
+ * Create a ReadableStream from a push-based, callback-style source
+ *
+ * `subscribe` is called once when the stream starts and may return a teardown
+ * function, called when the stream completes, errors, is cancelled or aborted.
+ * Chunks pushed while the stream is not read are buffered up to `bufferSize`,
+ * after which the `overflow` policy applies.
+ *
+ * @category Stream Creation
+ * @param subscribe - The function starting the source and returning its teardown
+ * @param options - The buffer size, overflow policy and abort signal
+ * @returns A ReadableStream that emits the chunks pushed by the source
+ * @example
+ * ```ts
+ * const stream = fromCallback<Message>(({ next, error }) => {
+ *   socket.on('message', next);
+ *   socket.on('error', error);
+ *   return () => socket.close();
+ * });
+ * ```
+ */
+export function fromCallback<T>(
+  subscribe: (emitter: Emitter<T>) => (() => void) | void,
+  { bufferSize = 1024, overflow = 'error', signal }: PushSourceOptions = {}
+): ReadableStream<T> {
+  const buffer: T[] = []
+  let controller!: ReadableStreamDefaultController<T>
+  let teardown: (() => void) | void
+  let demand = false
+  let done = false
+  let completed = false
+
+  function stop() {
+    done = true
+    signal?.removeEventListener('abort', onAbort)
+    teardown?.()
+  }
+
+  function fail(reason: unknown) {
+    if (done) return
+    stop()
+    controller.error(reason)
+  }
+
+  function onAbort() {
+    fail(signal!.reason)
+  }
+
+  const emitter: Emitter<T> = {
+    next(value) {
+      if (done || completed) return
+      if (demand) {
+        demand = false
+        controller.enqueue(value)
+      } else if (buffer.length < bufferSize) {
+        buffer.push(value)
+      } else if (overflow === 'drop-oldest') {
+        buffer.shift()
+        buffer.push(value)
+      } else if (overflow === 'error') {
+        fail(
+          new LimitExceededError(`Buffer exceeded ${bufferSize} chunks`, {
+            operator: 'fromCallback',
+            limit: bufferSize
+          })
+        )
+      }
+    },
+    error: fail,
+    complete() {
+      if (done || completed) return
+      completed = true
+      if (buffer.length === 0) {
+        stop()
+        controller.close()
+      }
+    }
+  }
+
+  return new ReadableStream<T>(
+    {
+      start(c) {
+        controller = c
+        signal?.throwIfAborted()
+        signal?.addEventListener('abort', onAbort, { once: true })
+        try {
+          teardown = subscribe(emitter)
+        } catch (error) {
+          stop()
+          throw error
+        }
+        if (done) {
+          teardown?.()
+        }
+      },
+      pull() {
+        if (buffer.length > 0) {
+          controller.enqueue(buffer.shift()!)
+          if (completed && buffer.length === 0 && !done) {
+            stop()
+            controller.close()
+          }
+        } else {
+          demand = true
+        }
+      },
+      cancel() {
+        stop()
+      }
+    },
+    { highWaterMark: 0 }
+  )
+}
+
+/**
+ * Create a ReadableStream from the events of an EventTarget
+ *
+ * The listener is removed when the stream is cancelled or the signal aborts.
+ *
+ * @category Stream Creation
+ * @param target - The EventTarget to listen to
+ * @param type - The event type
+ * @param options - The buffer size, overflow policy and abort signal
+ * @returns A ReadableStream that emits every dispatched event
+ * @example
+ * ```ts
+ * const clicks = fromEventTarget<MouseEvent>(button, 'click', {
+ *   bufferSize: 10,
+ *   overflow: 'drop-oldest'
+ * });
+ * ```
+ */
+export function fromEventTarget<E extends Event = Event>(
+  target: EventTarget,
+  type: string,
+  options?: PushSourceOptions
+): ReadableStream<E> {
+  return fromCallback<E>(({ next }) => {
+    const listener = (event: Event) => next(event as E)
+    target.addEventListener(type, listener)
+    return () => target.removeEventListener(type, listener)
+  }, options)
+}
+
+/**
+ * Create a ReadableStream from an iterable
+ *
+ * The iterable is only read when the stream is pulled, and cancelling the
+ * stream calls the iterator's `return()`. Promises yielded by a sync iterable
+ * are awaited, as in `for await`.
+ *
+ * @category Stream Creation
+ * @param iterable - The iterable or async iterable to convert to a stream
+ * @param options - A signal aborting the stream
+ * @returns A ReadableStream that emits items from the iterable
+ * @example
+ * ```ts
+ * const stream = fromIterable([1, 2, 3]);
+ * // or
+ * const stream = fromIterable(asyncGenerator());
+ * ```
+ */
+export function fromIterable<T>(
+  iterable: Iterable<T> | AsyncIterable<T>,
+  { signal }: SignalOptions = {}
+): ReadableStream<T> {
+  let iterator: Iterator<T> | AsyncIterator<T>
+
+  return abortableStream<T>(
+    {
+      start() {
+        iterator =
+          typeof (iterable as AsyncIterable<T>)[Symbol.asyncIterator] ===
+          'function'
+            ? (iterable as AsyncIterable<T>)[Symbol.asyncIterator]()
+            : (iterable as Iterable<T>)[Symbol.iterator]()
+      },
+      async pull(controller) {
+        const result = await iterator.next()
+        if (result.done) {
+          controller.close()
+        } else {
+          controller.enqueue(await result.value)
+        }
+      },
+      async cancel(reason) {
+        await iterator.return?.(reason)
+      }
+    },
+    signal
+  )
+}
+
+/**
+ * Minimal shape of a Node.js `Readable`, so the core does not depend on Node
+ * types
+ */
+export interface NodeReadableLike<T> extends AsyncIterable<T> {
+  destroy(error?: Error): unknown
+}
+
+/**
+ * Create a ReadableStream from a Node.js `Readable`
+ *
+ * The Readable is only read when the stream is pulled, and cancelling the
+ * stream destroys it.
+ *
+ * @category Stream Creation
+ * @param readable - The Node.js Readable to convert
+ * @param options - A signal aborting the stream and destroying the Readable
+ * @returns A ReadableStream that emits the chunks of the Readable
+ * @example
+ * ```ts
+ * const stream = fromNodeReadable(fs.createReadStream('data.csv'));
+ * ```
+ */
+export function fromNodeReadable<T = Uint8Array>(
+  readable: NodeReadableLike<T>,
+  { signal }: SignalOptions = {}
+): ReadableStream<T> {
+  let iterator: AsyncIterator<T>
+
+  return abortableStream<T>(
+    {
+      start() {
+        iterator = readable[Symbol.asyncIterator]()
+      },
+      async pull(controller) {
+        const result = await iterator.next()
+        if (result.done) {
+          controller.close()
+        } else {
+          controller.enqueue(result.value)
+        }
+      },
+      async cancel() {
+        readable.destroy()
+        await iterator.return?.()
+      }
+    },
+    signal
+  )
+}
+
+/**
+ * Create a ReadableStream from a promise
+ *
+ * @category Stream Creation
+ * @param promise - The promise whose value is emitted
+ * @param options - A signal erroring the stream instead of waiting for the promise
+ * @returns A ReadableStream that emits the resolved value and closes, or errors if the promise rejects
+ * @example
+ * ```ts
+ * const stream = fromPromise(fetchConfig());
+ * ```
+ */
+export function fromPromise<T>(
+  promise: PromiseLike<T>,
+  { signal }: SignalOptions = {}
+): ReadableStream<T> {
+  return abortableStream<T>(
+    {
+      async pull(controller) {
+        controller.enqueue(await promise)
+        controller.close()
+      }
+    },
+    signal
+  )
+}
+
+/**
+ * Create a ReadableStream by repeatedly applying a function to a seed
+ *
+ * @category Stream Creation
+ * @param seed - The first value
+ * @param next - The function computing the next value from the previous one
+ * @param until - The predicate stopping the stream; the value satisfying it is not emitted. Defaults to never stopping
+ * @param options - A signal aborting the stream
+ * @returns A ReadableStream that emits the seed and each following value
+ * @example
+ * ```ts
+ * const stream = generate(1, n => n * 2, n => n > 100);
+ * // Emits 1, 2, 4, 8, 16, 32, 64
+ * ```
+ */
+export function generate<T>(
+  seed: T,
+  next: (value: T) => SyncOrAsync<T>,
+  until: (value: T) => SyncOrAsync<boolean> = () => false,
+  { signal }: SignalOptions = {}
+): ReadableStream<T> {
+  let value: { current: T } | undefined
+
+  return abortableStream<T>(
+    {
+      async pull(controller) {
+        const current = value ? await next(value.current) : seed
+        value = { current }
+        if (await until(current)) {
+          controller.close()
+        } else {
+          controller.enqueue(current)
+        }
+      }
+    },
+    signal
+  )
+}
+
+/**
+ * Options for {@link groupBy}
+ */
+export interface GroupByOptions extends TimerOptions, SignalOptions {
+  /** Close a group after this many milliseconds without a chunk. A later chunk with the same key opens a new group */
+  idleTimeout?: number
+  /** Maximum number of groups open at the same time, above which the stream errors with a {@link LimitExceededError}. Defaults to `Infinity` */
+  maxGroups?: number
+}
+
+/**
+ * A sub-stream emitted by {@link groupBy}
+ */
+export interface Group<K, T> {
+  /** The key shared by every chunk of the group */
+  key: K
+  /** The chunks of the group */
+  stream: ReadableStream<T>
+}
+
+/**
+ * Split a stream into a sub-stream per key
+ *
+ * A group is emitted the first time its key is seen, and every later chunk
+ * with that key goes to its stream. The source is only read once every open
+ * group has room for another chunk, so each group must be read. Chunks of a
+ * cancelled group are discarded. The stream errors with a
+ * {@link LimitExceededError} if a chunk would open more than `maxGroups` groups.
+ *
+ * @category Combination
+ * @param stream - The stream to split
+ * @param keyFn - A function that computes the key of a chunk
+ * @param options - The idle timeout and maximum number of groups, and a signal aborting them
+ * @returns A ReadableStream of groups
+ * @example
+ * ```ts
+ * for await (const { key, stream } of groupBy(events, event => event.userId)) {
+ *   void stream.pipeTo(sinkFor(key));
+ * }
+ * ```
+ */
+export function groupBy<T, K>(
+  stream: ReadableStream<T>,
+  keyFn: (chunk: T, signal: AbortSignal) => SyncOrAsync<K>,
+  {
+    idleTimeout,
+    maxGroups = Infinity,
+    clock = systemClock,
+    signal
+  }: GroupByOptions = {}
+): ReadableStream<Group<K, T>> {
+  type Entry = { branch: Branch<T>; timer?: unknown }
+  const groups = new Map<K, Entry>()
+
+  function expire(key: K, entry: Entry) {
+    if (idleTimeout === undefined) return
+    clock.clearTimeout(entry.timer)
+    entry.timer = clock.setTimeout(() => {
+      groups.delete(key)
+      entry.branch.close()
+    }, idleTimeout)
+  }
+
+  const branch = splitter<T>(
+    'groupBy',
+    stream,
+    async (chunk, callbackSignal) => {
+      const key = await keyFn(chunk, callbackSignal)
+      let entry = groups.get(key)
+      if (!entry) {
+        if (!outer.open) return
+        if (groups.size >= maxGroups) {
+          throw new LimitExceededError(
+            `Stream exceeded the limit of ${maxGroups} groups`,
+            { operator: 'groupBy', limit: maxGroups }
+          )
+        }
+        entry = { branch: branch<T>() }
+        groups.set(key, entry)
+        outer.enqueue({ key, stream: entry.branch.readable })
+      }
+      entry.branch.enqueue(chunk)
+      expire(key, entry)
+    },
+    {
+      onEnd: () => groups.forEach(entry => clock.clearTimeout(entry.timer)),
+      signal
+    }
+  )
+  const outer = branch<Group<K, T>>()
+  return outer.readable
+}
+
+/**
+ * A snapshot of the activity of an operator wrapped by {@link instrument}
+ */
+export interface OperatorMetrics {
+  /** The name given to the operator */
+  name: string
+  /** Whether the operator is still running, or how it ended */
+  state: 'running' | 'closed' | 'errored' | 'cancelled'
+  /** Number of chunks written to the operator */
+  chunksIn: number
+  /** Number of chunks emitted by the operator */
+  chunksOut: number
+  /** Milliseconds since the operator was instrumented */
+  elapsedMs: number
+  /** Chunks emitted per second since the operator was instrumented */
+  throughput: number
+  /** Milliseconds spent processing chunks, from being written until accepted */
+  callbackMs: number
+  /** Number of chunks that had to wait for the consumer to read */
+  backpressureWaits: number
+  /** Milliseconds spent waiting for the consumer to read */
+  backpressureMs: number
+  /** The `desiredSize` of the output queue, or `null` once it errored */
+  desiredSize: number | null
+}
+
+/**
+ * Decompress a gzip byte stream
+ *
+ * @category Encoding
+ * @returns A `DecompressionStream` turning gzip-compressed bytes into bytes
+ * @example
+ * ```ts
+ * const lines = response.body
+ *   .pipeThrough(gunzip())
+ *   .pipeThrough(splitLines());
+ * ```
+ */
+export function gunzip(): TransformStream<Uint8Array, Uint8Array> {
+  return new DecompressionStream('gzip') as TransformStream<
+    Uint8Array,
+    Uint8Array
+  >
+}
+
+/**
+ * Compress a byte stream with gzip
+ *
+ * @category Encoding
+ * @returns A `CompressionStream` turning bytes into gzip-compressed bytes
+ * @example
+ * ```ts
+ * await records
+ *   .pipeThrough(stringifyNdjson())
+ *   .pipeThrough(new TextEncoderStream())
+ *   .pipeThrough(gzip())
+ *   .pipeTo(file);
+ * ```
+ */
+export function gzip(): TransformStream<Uint8Array, Uint8Array> {
+  return new CompressionStream('gzip') as TransformStream<
+    Uint8Array,
+    Uint8Array
+  >
+}
+
+/**
+ * The digest algorithms supported by {@link hash}
+ */
+export type HashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512'
+
+/**
+ * The transform returned by {@link hash}
+ */
+export interface HashTransform extends TransformStream<Uint8Array, Uint8Array> {
+  /** Resolves with the digest once the stream closes, or rejects if it fails */
+  digest: Promise<Uint8Array>
+}
+
+/**
+ * Hash the bytes passing through a stream
+ *
+ * SHA-256 is computed incrementally as chunks pass through. Web Crypto can
+ * only digest a whole buffer, so the other algorithms keep every byte until
+ * the stream closes.
+ *
+ * @category Encoding
+ * @param algorithm - The digest algorithm. Defaults to `'SHA-256'`
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that passes chunks unchanged, with the promise of the digest
+ * @example
+ * ```ts
+ * const hasher = hash();
+ * await upload.pipeThrough(hasher).pipeTo(file);
+ * const checksum = Array.from(await hasher.digest, byte =>
+ *   byte.toString(16).padStart(2, '0')
+ * ).join('');
+ * ```
+ */
+export function hash(
+  algorithm: HashAlgorithm = 'SHA-256',
+  options: StrategyOptions<Uint8Array> = {}
+): HashTransform {
+  const { promise: digest, resolve, reject } = deferred<Uint8Array>()
+  const hasher = algorithm === 'SHA-256' ? sha256() : undefined
+  const chunks: Uint8Array[] = []
+
+  const transform = new TransformStream<Uint8Array, Uint8Array>(
+    cancellable({
+      transform(chunk, controller) {
+        if (hasher) {
+          hasher.update(chunk)
+        } else {
+          chunks.push(chunk)
+        }
+        controller.enqueue(chunk)
+      },
+      async flush() {
+        if (hasher) {
+          resolve(hasher.digest())
+        } else {
+          const buffer = await crypto.subtle.digest(
+            algorithm,
+            joinBytes(chunks)
+          )
+          resolve(new Uint8Array(buffer))
+        }
+      },
+      cancel: reject
+    }),
+    options.writableStrategy,
+    options.readableStrategy
+  )
+  return Object.assign(transform, { digest })
+}
+
+/**
+ * Decompress a deflate (zlib) byte stream
+ *
+ * @category Encoding
+ * @returns A `DecompressionStream` turning deflate-compressed bytes into bytes
+ * @example
+ * ```ts
+ * const bytes = compressed.pipeThrough(inflate());
+ * ```
+ */
+export function inflate(): TransformStream<Uint8Array, Uint8Array> {
+  return new DecompressionStream('deflate') as TransformStream<
+    Uint8Array,
+    Uint8Array
+  >
+}
+
+/**
+ * The part of an OpenTelemetry `Span` used by {@link instrument}
+ */
+export interface SpanLike {
+  setAttributes(attributes: Record<string, string | number>): unknown
+  recordException(exception: unknown): unknown
+  setStatus(status: { code: number; message?: string }): unknown
+  end(): void
+}
+
+/**
+ * The part of an OpenTelemetry `Tracer` used by {@link instrument}, so that a
+ * tracer from `@opentelemetry/api` can be passed as is
+ */
+export interface TracerLike {
+  startSpan(name: string): SpanLike
+}
+
+/**
+ * Options for {@link instrument}
+ */
+export interface InstrumentOptions extends TimerOptions {
+  /** The name of the operator in metrics and spans */
+  name: string
+  /** Receive the metrics after each chunk and once the operator is done */
+  onMetrics?: (metrics: OperatorMetrics) => void
+  /** Minimum milliseconds between two calls to `onMetrics` while running. Defaults to `0` */
+  interval?: number
+  /** Record the lifetime of the operator as a span, with the final metrics as attributes */
+  tracer?: TracerLike
+}
+
+/**
+ * Measure the activity of a transform
+ *
+ * Reports how many chunks go in and out, how long the transform takes to
+ * accept each chunk, and how long it waits for its consumer, which tells the
+ * bottleneck of a stalled pipeline apart from its victims: a slow stage has a
+ * high `callbackMs`, the stages before it a high `backpressureMs`.
+ *
+ * @category Observability
+ * @param transform - The transform to measure
+ * @param options - The name of the operator and where to report its metrics
+ * @returns A TransformStream that behaves like `transform`
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(
+ *   instrument(mapConcurrent(enrich, { concurrency: 4 }), {
+ *     name: 'enrich',
+ *     interval: 1000,
+ *     onMetrics: metrics => console.table(metrics),
+ *     tracer: trace.getTracer('ingest')
+ *   })
+ * );
+ * ```
+ */
+export function instrument<I, O>(
+  transform: TransformStream<I, O>,
+  {
+    name,
+    onMetrics,
+    interval = 0,
+    tracer,
+    clock = systemClock
+  }: InstrumentOptions
+): TransformStream<I, O> {
+  const writer = transform.writable.getWriter()
+  const reader = transform.readable.getReader()
+  const span = tracer?.startSpan(name)
+  const startedAt = clock.now()
+  const metrics = {
+    name,
+    state: 'running' as OperatorMetrics['state'],
+    chunksIn: 0,
+    chunksOut: 0,
+    callbackMs: 0,
+    backpressureWaits: 0,
+    backpressureMs: 0
+  }
+  let output!: ReadableStreamDefaultController<O>
+  let lastReport = -Infinity
+  let demanded: Promise<void> | undefined
+  let onDemand: (() => void) | undefined
+
+  function snapshot(): OperatorMetrics {
+    const elapsedMs = clock.now() - startedAt
+    return {
+      ...metrics,
+      elapsedMs,
+      throughput: elapsedMs > 0 ? (metrics.chunksOut / elapsedMs) * 1000 : 0,
+      desiredSize: metrics.state === 'errored' ? null : output.desiredSize
+    }
+  }
+
+  function report() {
+    const now = clock.now()
+    if (now - lastReport < interval) return
+    lastReport = now
+    onMetrics?.(snapshot())
+  }
+
+  function finish(state: OperatorMetrics['state'], error?: unknown) {
+    if (metrics.state !== 'running') return
+    metrics.state = state
+    const final = snapshot()
+    onMetrics?.(final)
+    if (!span) return
+    span.setAttributes({
+      'stream.operator': name,
+      'stream.state': state,
+      'stream.chunks_in': final.chunksIn,
+      'stream.chunks_out': final.chunksOut,
+      'stream.callback_ms': final.callbackMs,
+      'stream.backpressure_waits': final.backpressureWaits,
+      'stream.backpressure_ms': final.backpressureMs
+    })
+    if (state === 'errored') {
+      span.recordException(error)
+      span.setStatus({ code: 2, message: String(error) })
+    }
+    span.end()
+  }
+
+  // Shared by the writes and the pump, which both wait for the consumer
+  function demand(): Promise<void> | undefined {
+    if (output.desiredSize === null || output.desiredSize > 0) return
+    demanded ??= new Promise(resolve => (onDemand = resolve))
+    return demanded
+  }
+
+  function wake() {
+    onDemand?.()
+    onDemand = undefined
+    demanded = undefined
+  }
+
+  async function pump() {
+    try {
+      while (true) {
+        await demand()
+        if (metrics.state === 'cancelled') return
+        const result = await reader.read()
+        if (result.done) break
+        metrics.chunksOut++
+        output.enqueue(result.value)
+        report()
+      }
+      output.close()
+      finish('closed')
+    } catch (error) {
+      output.error(error)
+      finish('errored', error)
+    }
+    wake()
+  }
+
+  const readable = new ReadableStream<O>({
+    start(controller) {
+      output = controller
+      void pump()
+    },
+    pull() {
+      wake()
+    },
+    cancel(reason) {
+      finish('cancelled')
+      wake()
+      return reader.cancel(reason)
+    }
+  })
+
+  const writable = new WritableStream<I>({
+    async write(chunk) {
+      metrics.chunksIn++
+      const waiting = demand()
+      if (waiting) {
+        const waitedAt = clock.now()
+        metrics.backpressureWaits++
+        await waiting
+        metrics.backpressureMs += clock.now() - waitedAt
+      }
+
+      const writtenAt = clock.now()
+      try {
+        await writer.write(chunk)
+      } finally {
+        metrics.callbackMs += clock.now() - writtenAt
+      }
+      report()
+    },
+    close() {
+      return writer.close()
+    },
+    abort(reason) {
+      finish('errored', reason)
+      return writer.abort(reason)
+    }
+  })
+
+  return { readable, writable }
+}
+
+/**
+ * Create a ReadableStream that emits values at specified intervals
+ *
+ * @category Stream Creation
+ * @param period - The interval in milliseconds between emissions
+ * @param options - The clock to schedule the emissions with, and a signal aborting the stream
+ * @returns A ReadableStream that emits incrementing numbers at the specified interval
+ * @example
+ * ```ts
+ * const stream = interval(1000); // Emits 0, 1, 2, ... every second
+ * ```
+ */
+export function interval(
+  period: number,
+  { clock = systemClock, signal }: TimerOptions & SignalOptions = {}
+): ReadableStream<number> {
+  let counter = 0
+  let handle: unknown
+
+  return abortableStream<number>(
+    {
+      start(controller) {
+        const started = clock.now()
+        // Schedule each emission from the start so the period does not drift
+        const schedule = () => {
+          const next = started + (counter + 1) * period
+          handle = clock.setTimeout(
+            () => {
+              controller.enqueue(counter++)
+              schedule()
+            },
+            Math.max(0, next - clock.now())
+          )
+        }
+        schedule()
+      },
+      cancel() {
+        clock.clearTimeout(handle)
+      }
+    },
+    signal
+  )
+}
+
+/**
+ * Read a stream to its end and return its last chunk
+ *
+ * @category Consumption
+ * @param stream - The readable stream to read
+ * @param options - The abort signal and the maximum number of chunks to read
+ * @returns A promise that resolves to the last chunk, or `undefined` if the stream is empty
+ * @example
+ * ```ts
+ * const latest = await last(events);
+ * ```
+ */
+export async function last<T>(
+  stream: ReadableStream<T>,
+  options?: ConsumeOptions
+): Promise<T | undefined> {
+  let latest: T | undefined
+  await consume(
+    'last',
+    stream,
+    chunk => {
+      latest = chunk
+    },
+    options
+  )
+  return latest
+}
+
+/**
+ * Options for {@link lengthPrefixed}
+ */
+export interface LengthPrefixedOptions extends StrategyOptions<Uint8Array> {
+  /** The size of the length header of each frame. Defaults to `4` */
+  headerBytes?: 1 | 2 | 4
+  /** The byte order of the length header. Defaults to `'big'` */
+  endianness?: 'big' | 'little'
+  /** Maximum length of a frame, above which the stream errors with a {@link LimitExceededError}. Defaults to the largest length the header can hold */
+  maxFrameLength?: number
+}
+
+/**
+ * The transforms returned by {@link lengthPrefixed}
+ */
+export interface LengthPrefixed {
+  /** Create a TransformStream that prefixes each chunk with its length */
+  frame(): TransformStream<Uint8Array, Uint8Array>
+  /** Create a TransformStream that emits each frame of a length-prefixed byte stream, whatever the size of its chunks */
+  deframe(): TransformStream<Uint8Array, Uint8Array>
+}
+
+/**
+ * Frame byte chunks with a length header, and split them back into frames
+ *
+ * Both sides must use the same options. The stream errors if it ends in the
+ * middle of a frame.
+ *
+ * @category Encoding
+ * @param options - The size and byte order of the length header, and the maximum frame length
+ * @returns The factories of the framing and deframing transforms
+ * @example
+ * ```ts
+ * const { frame, deframe } = lengthPrefixed({ headerBytes: 2 });
+ * await messages.pipeThrough(frame()).pipeTo(socket.writable);
+ * const received = socket.readable.pipeThrough(deframe());
+ * ```
+ */
+export function lengthPrefixed({
+  headerBytes = 4,
+  endianness = 'big',
+  maxFrameLength = Infinity,
+  writableStrategy = byteLengthStrategy(),
+  readableStrategy
+}: LengthPrefixedOptions = {}): LengthPrefixed {
+  if (![1, 2, 4].includes(headerBytes)) {
+    throw new RangeError('headerBytes must be 1, 2 or 4')
+  }
+  const littleEndian = endianness === 'little'
+  const limit = Math.min(maxFrameLength, 2 ** (headerBytes * 8) - 1)
+
+  function readHeader(header: Uint8Array<ArrayBuffer>): number {
+    const view = new DataView(header.buffer)
+    if (headerBytes === 1) return view.getUint8(0)
+    if (headerBytes === 2) return view.getUint16(0, littleEndian)
+    return view.getUint32(0, littleEndian)
+  }
+
+  function check(length: number, index: number) {
+    if (length > limit) {
+      throw new LimitExceededError(
+        `Frame of ${length} bytes exceeded the limit of ${limit} bytes`,
+        { operator: 'lengthPrefixed', index, limit }
+      )
+    }
+  }
+
+  return {
+    frame() {
+      let index = 0
+      return new TransformStream(
+        {
+          transform(chunk, controller) {
+            check(chunk.byteLength, index++)
+            const frame = new Uint8Array(headerBytes + chunk.byteLength)
+            const view = new DataView(frame.buffer)
+            if (headerBytes === 1) {
+              view.setUint8(0, chunk.byteLength)
+            } else if (headerBytes === 2) {
+              view.setUint16(0, chunk.byteLength, littleEndian)
+            } else {
+              view.setUint32(0, chunk.byteLength, littleEndian)
+            }
+            frame.set(chunk, headerBytes)
+            controller.enqueue(frame)
+          }
+        },
+        writableStrategy,
+        readableStrategy
+      )
+    },
+    deframe() {
+      const queue = byteQueue()
+      let length: number | undefined
+      let index = 0
+      return new TransformStream(
+        {
+          transform(chunk, controller) {
+            queue.push(chunk)
+            while (true) {
+              if (length === undefined) {
+                if (queue.length < headerBytes) break
+                length = readHeader(queue.take(headerBytes))
+                check(length, index)
+              }
+              if (queue.length < length) break
+              controller.enqueue(queue.take(length))
+              length = undefined
+              index++
+            }
+          },
+          flush() {
+            if (length !== undefined || queue.length > 0) {
+              throw new StreamOperatorError(
+                `Stream ended in the middle of frame ${index}`,
+                { operator: 'lengthPrefixed', index }
+              )
+            }
+          }
+        },
+        writableStrategy,
+        readableStrategy
+      )
+    }
+  }
+}
+
+/**
+ * Options for {@link logProgress}
+ */
+export interface LogProgressOptions extends TimerOptions {
+  /** The label of each message. Defaults to `'progress'` */
+  name?: string
+  /** Where to write each message. Defaults to `console.log` */
+  log?: (message: string) => void
+}
+
+/**
+ * Log how many chunks went through a stream
+ *
+ * A message with the count and rate so far is logged every `every` chunks, and
+ * a last one when the stream closes.
+ *
+ * @category Observability
+ * @param every - The number of chunks between two messages
+ * @param options - The label and destination of the messages
+ * @returns A TransformStream that passes chunks through
+ * @example
+ * ```ts
+ * const stream = rows.pipeThrough(logProgress(10_000, { name: 'import' }));
+ * // import: 10000 chunks (2500/s)
+ * ```
+ */
+export function logProgress<T>(
+  every: number,
+  {
+    name = 'progress',
+    log = console.log,
+    clock = systemClock,
+    writableStrategy,
+    readableStrategy
+  }: LogProgressOptions & StrategyOptions<T> = {}
+): TransformStream<T, T> {
+  if (!(every >= 1)) {
+    throw new RangeError('every must be a positive number')
+  }
+
+  const startedAt = clock.now()
+  let count = 0
+
+  function message(suffix = '') {
+    const seconds = (clock.now() - startedAt) / 1000
+    const rate = seconds > 0 ? Math.round(count / seconds) : count
+    return `${name}: ${count} chunks (${rate}/s)${suffix}`
+  }
+
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        controller.enqueue(chunk)
+        if (++count % every === 0) {
+          log(message())
+        }
+      },
+      flush() {
+        log(message(', done'))
+      }
+    },
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Map function for transforming stream chunks
+ *
+ * Like every operator running a callback per chunk, `fn` is handed an
+ * `AbortSignal` aborted once the operator is cancelled, fails or its `signal`
+ * option is aborted, so in-flight work can be abandoned.
+ *
+ * @category Transformation
+ * @param fn - The transformation function to apply to each chunk
+ * @param options - How to retry a failed transformation, and a signal aborting it
+ * @returns A TransformStream that applies the transformation
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(map(x => x * 2));
+ * // Retry flaky requests up to 3 times
+ * const users = ids.pipeThrough(
+ *   map(id => fetchUser(id), { retry: { attempts: 3 } })
+ * );
+ * // Cancelling `pages` also aborts the request in flight
+ * const pages = urls.pipeThrough(map((url, signal) => fetch(url, { signal })));
+ * ```
+ */
+export function map<T, R>(
+  fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  options: OperatorOptions<T, R> = {}
+): TransformStream<T, R> {
+  return callbackTransform(
+    'map',
+    fn,
+    options,
+    async (chunk, run, controller) => {
+      controller.enqueue(await run(chunk))
+    }
+  )
+}
+
+/**
+ * Map stream chunks with an async function, running several calls concurrently
+ *
+ * @category Transformation
+ * @param fn - The transformation function to apply to each chunk
+ * @param options - The concurrency limit and whether to preserve input order
+ * @returns A TransformStream that applies the transformation
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(
+ *   mapConcurrent(async id => fetchUser(id), { concurrency: 4 })
+ * );
+ * // Up to 4 requests are in flight, results keep the input order
+ * ```
+ */
+export function mapConcurrent<T, R>(
+  fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  options: ConcurrencyOptions<T, R>
+): TransformStream<T, R> {
+  return concurrentTransform<T, R, R>(
+    'mapConcurrent',
+    fn,
+    (controller, result) => {
+      controller.enqueue(result)
+    },
+    options
+  )
+}
+
+/**
+ * The outcome of the callback of {@link mapSettled} for a chunk
+ */
+export type Settled<T, R> = (
+  | PromiseFulfilledResult<R>
+  | PromiseRejectedResult
+) & {
+  /** The chunk the callback was called with */
+  chunk: T
+}
+
+/**
+ * Map stream chunks, emitting the outcome of each call instead of erroring
+ *
+ * Failed chunks are emitted as `{ status: 'rejected', reason, chunk }` records,
+ * so they can be routed elsewhere without stopping the stream.
+ *
+ * @category Transformation
+ * @param fn - The transformation function to apply to each chunk
+ * @param options - How to retry a failed transformation before settling
+ * @returns A TransformStream that emits a settled record for each chunk
+ * @example
+ * ```ts
+ * const results = readable.pipeThrough(mapSettled(record => save(record)));
+ * const [saved, failed] = results.tee();
+ * // Send failed.pipeThrough(filter(r => r.status === 'rejected')) to a dead-letter sink
+ * ```
+ */
+export function mapSettled<T, R>(
+  fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  options: OperatorOptions<T, Settled<T, R>> = {}
+): TransformStream<T, Settled<T, R>> {
+  return callbackTransform(
+    'mapSettled',
+    fn,
+    options,
+    async (chunk, run, controller) => {
+      try {
+        controller.enqueue({
+          status: 'fulfilled',
+          value: await run(chunk),
+          chunk
+        })
+      } catch (reason) {
+        controller.enqueue({ status: 'rejected', reason, chunk })
+      }
+    }
+  )
+}
+
+/**
+ * Create a {@link CheckpointStore} keeping offsets in memory
+ *
+ * The offsets survive reopening a source with {@link resumable} within the
+ * same process, but not a restart.
+ *
+ * @category Checkpointing
+ * @param initial - The offsets to start from, by key
+ * @returns A store backed by a `Map`
+ * @example
+ * ```ts
+ * const store = memoryCheckpointStore<number>();
+ * ```
+ */
+export function memoryCheckpointStore<O = unknown>(
+  initial?: Iterable<readonly [string, O]>
+): CheckpointStore<O> {
+  const offsets = new Map(initial)
+  return {
+    load: key => offsets.get(key),
+    save(key, offset) {
+      offsets.set(key, offset)
+    }
+  }
+}
+
+/**
+ * Options for {@link merge} and {@link merger}
+ */
+export interface MergeOptions {
+  /**
+   * How input errors are handled. `'fail-fast'` (the default) errors the
+   * merged stream and cancels the other inputs on the first error. `'collect'`
+   * keeps reading the other inputs and errors the merged stream with an
+   * `AggregateError` of every input error once they are all done.
+   */
+  errors?: 'fail-fast' | 'collect'
+}
+
+/**
+ * Merge multiple streams into a single stream
+ *
+ * Inputs are only read when the merged stream pulls, and cancelling the merged
+ * stream cancels every input. The errors of the inputs are wrapped in a
+ * {@link StreamOperatorError} telling the index of the failed input.
+ *
+ * @category Combination
+ * @param streams - The streams to merge
+ * @returns A ReadableStream that emits chunks from all input streams
+ * @example
+ * ```ts
+ * const mergedStream = merge(stream1, stream2, stream3);
+ * // or
+ * const mergedStream = merge([stream1, stream2], { errors: 'collect' });
+ * ```
+ */
+export function merge<T>(...streams: ReadableStream<T>[]): ReadableStream<T>
+export function merge<T>(
+  streams: ReadableStream<T>[],
+  options: MergeOptions
+): ReadableStream<T>
+export function merge<T>(
+  ...args: ReadableStream<T>[] | [ReadableStream<T>[], MergeOptions]
+): ReadableStream<T> {
+  const [streams, options] = Array.isArray(args[0])
+    ? (args as [ReadableStream<T>[], MergeOptions])
+    : [args as ReadableStream<T>[], {}]
+  const { readable, add, close } = merger<T>(options)
+  streams.forEach(add)
+  close()
+  return readable
+}
+
+/**
+ * A merged stream whose inputs can be added over time
+ *
+ * @see {@link merger}
+ */
+export interface Merger<T> {
+  /** The merged stream */
+  readable: ReadableStream<T>
+  /** Add an input to the merged stream */
+  add(stream: ReadableStream<T>): void
+  /** Signal that no more inputs will be added, so the merged stream can close */
+  close(): void
+}
+
+/**
+ * Create a merged stream to which inputs can be added dynamically
+ *
+ * The merged stream closes once {@link Merger.close} has been called and every
+ * input is done.
+ *
+ * @category Combination
+ * @param options - How input errors are handled
+ * @returns The merged stream and the functions to add inputs and close it
+ * @example
+ * ```ts
+ * const { readable, add, close } = merger<Event>();
+ * add(stream1);
+ * // Later
+ * add(stream2);
+ * close();
+ * ```
+ */
+export function merger<T>({
+  errors = 'fail-fast'
+}: MergeOptions = {}): Merger<T> {
+  // The index of the input of each reader, for the errors
+  const readers = new Map<ReadableStreamDefaultReader<T>, number>()
+  const reading = new Set<ReadableStreamDefaultReader<T>>()
+  const failures: unknown[] = []
+  let inputs = 0
+  let closed = false
+  let finished = false
+  let controller!: ReadableStreamDefaultController<T>
+  let notify: (() => void) | undefined
+
+  function wake() {
+    notify?.()
+    notify = undefined
+  }
+
+  function cancelAll(reason: unknown) {
+    const cancelled = cancelReaders(readers.keys(), reason)
+    readers.clear()
+    return cancelled
+  }
+
+  function finish() {
+    if (finished || !closed || readers.size > 0) return
+    finished = true
+    if (failures.length > 0) {
+      controller.error(
+        new AggregateError(failures, 'One or more merged streams failed')
+      )
+    } else {
+      controller.close()
+    }
+    wake()
+  }
+
+  function read(reader: ReadableStreamDefaultReader<T>) {
+    reading.add(reader)
+    reader.read().then(
+      result => {
+        reading.delete(reader)
+        if (finished) return
+        if (result.done) {
+          readers.delete(reader)
+          reader.releaseLock()
+          finish()
+        } else {
+          controller.enqueue(result.value)
+          wake()
+        }
+      },
+      cause => {
+        const error = operatorError(cause, {
+          operator: 'merge',
+          input: readers.get(reader)
+        })
+        reading.delete(reader)
+        readers.delete(reader)
+        reader.releaseLock()
+        if (finished) return
+        if (errors === 'collect') {
+          failures.push(error)
+          finish()
+        } else {
+          finished = true
+          controller.error(error)
+          cancelAll(error)
+          wake()
+        }
+      }
+    )
+  }
+
+  const readable = new ReadableStream<T>({
+    start(c) {
+      controller = c
+    },
+    pull() {
+      finish()
+      if (finished) return
+      readers.forEach((_, reader) => {
+        if (!reading.has(reader)) {
+          read(reader)
+        }
+      })
+      return new Promise<void>(resolve => {
+        notify = resolve
+      })
+    },
+    async cancel(reason) {
+      finished = true
+      wake()
+      await cancelAll(reason)
+    }
+  })
+
+  return {
+    readable,
+    add(stream) {
+      if (closed) {
+        throw new TypeError('Cannot add a stream to a closed merger')
+      }
+      if (finished) {
+        stream.cancel().catch(() => {})
+        return
+      }
+      const reader = stream.getReader()
+      readers.set(reader, inputs++)
+      if (notify) {
+        read(reader)
+      }
+    },
+    close() {
+      closed = true
+      finish()
+    }
+  }
+}
+
+/**
+ * Emit each chunk along with the one before it
+ *
+ * @category Transformation
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that emits `[previous, current]` pairs
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(pairwise());
+ * // If readable emits [1, 2, 3], the result will be [[1, 2], [2, 3]]
+ * ```
+ */
+export function pairwise<T>(
+  options: StrategyOptions<T, [T, T]> = {}
+): TransformStream<T, [T, T]> {
+  let previous: { chunk: T } | undefined
+
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        if (previous) {
+          controller.enqueue([previous.chunk, chunk])
+        }
+        previous = { chunk }
+      }
+    },
+    options.writableStrategy,
+    options.readableStrategy
+  )
+}
+
+/**
+ * Options for {@link parseCsv}
+ */
+export interface CsvParseOptions {
+  /** The field delimiter. Defaults to `','` */
+  delimiter?: string
+  /** The quote character. Defaults to `'"'` */
+  quote?: string
+  /**
+   * Emit objects instead of arrays, keyed by the first row (`true`) or by the
+   * given column names
+   */
+  headers?: boolean | string[]
+}
+
+/**
+ * Parse CSV text into rows, as described by RFC 4180
+ *
+ * Quoted fields may contain delimiters, line breaks and doubled quotes. Both
+ * `\r\n` and `\n` line endings are accepted, and blank lines are skipped.
+ *
+ * @category Encoding
+ * @param options - The delimiter, quote character and header handling
+ * @returns A TransformStream that emits each row as an array of fields, or as an object when `headers` is set
+ * @example
+ * ```ts
+ * const rows = response.body.pipeThrough(parseCsv({ headers: true }));
+ * // 'name,age\nAda,36\n' emits { name: 'Ada', age: '36' }
+ * ```
+ */
+export function parseCsv(
+  options: CsvParseOptions &
+    StrategyOptions<TextChunk, Record<string, string>> & {
+      headers: true | string[]
+    }
+): TransformStream<TextChunk, Record<string, string>>
+export function parseCsv(
+  options?: CsvParseOptions & StrategyOptions<TextChunk, string[]>
+): TransformStream<TextChunk, string[]>
+export function parseCsv({
+  delimiter = ',',
+  quote = '"',
+  headers = false,
+  writableStrategy = byteLengthStrategy(),
+  readableStrategy
+}: CsvParseOptions & StrategyOptions<TextChunk, never> = {}): TransformStream<
+  TextChunk,
+  string[] | Record<string, string>
+> {
+  if (delimiter.length !== 1 || quote.length !== 1) {
+    throw new RangeError('delimiter and quote must be single characters')
+  }
+
+  const decoder = textDecoder()
+  let columns = Array.isArray(headers) ? headers : undefined
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  let inQuotes = false
+  let afterQuote = false
+  let afterCarriageReturn = false
+
+  function endRow(
+    controller: TransformStreamDefaultController<
+      string[] | Record<string, string>
+    >
+  ) {
+    row.push(field)
+    const blank = row.length === 1 && field === '' && !quoted
+    const fields = row
+    row = []
+    field = ''
+    quoted = false
+    if (blank) return
+
+    if (headers === true && !columns) {
+      columns = fields
+    } else if (columns) {
+      controller.enqueue(
+        Object.fromEntries(columns.map((name, i) => [name, fields[i] ?? '']))
+      )
+    } else {
+      controller.enqueue(fields)
+    }
+  }
+
+  function parse(
+    text: string,
+    controller: TransformStreamDefaultController<
+      string[] | Record<string, string>
+    >
+  ) {
+    for (const char of text) {
+      const skipLineFeed = afterCarriageReturn
+      afterCarriageReturn = false
+
+      if (inQuotes) {
+        if (afterQuote) {
+          afterQuote = false
+          if (char === quote) {
+            field += quote
+            continue
+          }
+          inQuotes = false
+        } else {
+          if (char === quote) {
+            afterQuote = true
+          } else {
+            field += char
+          }
+          continue
+        }
+      }
+
+      if (char === quote && field === '' && !quoted) {
+        quoted = true
+        inQuotes = true
+      } else if (char === delimiter) {
+        row.push(field)
+        field = ''
+        quoted = false
+      } else if (char === '\r') {
+        endRow(controller)
+        afterCarriageReturn = true
+      } else if (char === '\n') {
+        if (!skipLineFeed) {
+          endRow(controller)
+        }
+      } else {
+        field += char
+      }
+    }
+  }
+
+  return new TransformStream<TextChunk, string[] | Record<string, string>>(
+    {
+      transform(chunk, controller) {
+        parse(decoder.decode(chunk), controller)
+      },
+      flush(controller) {
+        parse(decoder.end(), controller)
+        if (inQuotes && !afterQuote) {
+          throw new SyntaxError(
+            'Unterminated quoted field at the end of the CSV'
+          )
+        }
+        if (field !== '' || quoted || row.length > 0) {
+          endRow(controller)
+        }
+      }
+    },
+    writableStrategy,
+    readableStrategy as QueuingStrategy<string[] | Record<string, string>>
+  )
+}
+
+/**
+ * Options for {@link parseJsonArray} and {@link parseJsonPath}
+ */
+export interface JsonPathOptions<T> extends StrategyOptions<TextChunk, T> {
+  /** Maximum nesting depth of the document. Defaults to `Infinity` */
+  maxDepth?: number
+  /** Maximum length of the JSON text of an emitted value, in characters. Defaults to `Infinity` */
+  maxLength?: number
+}
+
+/**
+ * Parse the elements of a top-level JSON array as they arrive
+ *
+ * Shorthand for `parseJsonPath('$[*]')`.
+ *
+ * @category Encoding
+ * @param options - The depth and length limits and the queuing strategies of
+ * the operator
+ * @returns A TransformStream that emits each element of the array
+ * @example
+ * ```ts
+ * const response = await fetch('/users.json');
+ * const batches = response.body
+ *   .pipeThrough(parseJsonArray<User>())
+ *   .pipeThrough(batch(100));
+ * ```
+ */
+export function parseJsonArray<T = unknown>(
+  options?: JsonPathOptions<T>
+): TransformStream<TextChunk, T> {
+  return parseJsonPath<T>('$[*]', options)
+}
+
+/**
+ * Parse the values matching a JSONPath expression as they arrive
+ *
+ * The document is tokenized incrementally, so only the value being parsed is
+ * held in memory and each value is emitted as soon as it is complete. The path
+ * starts with `$` for the root, followed by `.key`, `['key']`, `[index]` and
+ * `.*` or `[*]` wildcards. Invalid JSON errors the stream with a `SyntaxError`
+ * giving the line and column of the offending character, and exceeding
+ * `maxDepth` or `maxLength` with a {@link LimitExceededError}.
+ *
+ * @category Encoding
+ * @param path - The JSONPath expression selecting the values to emit
+ * @param options - The depth and length limits and the queuing strategies of
+ * the operator
+ * @returns A TransformStream that emits each value matching the path
+ * @example
+ * ```ts
+ * // { "total": 2, "items": [{ "id": 1 }, { "id": 2 }] }
+ * const ids = response.body
+ *   .pipeThrough(parseJsonPath<number>('$.items[*].id'));
+ * // 1, 2
+ * ```
+ */
+export function parseJsonPath<T = unknown>(
+  path: string,
+  {
+    maxDepth = Infinity,
+    maxLength = Infinity,
+    writableStrategy = byteLengthStrategy(),
+    readableStrategy
+  }: JsonPathOptions<T> = {}
+): TransformStream<TextChunk, T> {
+  const segments = jsonPathSegments(path)
+  const decoder = textDecoder()
+  // The containers around the current token, with the key or index of the
+  // child being parsed
+  const stack: { array: boolean; key: string | number }[] = []
+  let state:
+    | 'value'
+    | 'firstValue'
+    | 'firstKey'
+    | 'key'
+    | 'colon'
+    | 'next'
+    | 'end'
+    | 'string'
+    | 'number'
+    | 'literal' = 'value'
+  let text = ''
+  let line = 1
+  let column = 1
+  let token = ''
+  let tokenLine = 1
+  let tokenColumn = 1
+  let inKey = false
+  let keyText: string | undefined
+  // -1 after a backslash, then the number of hex digits left in a `\u` escape
+  let escaped = 0
+  let captured: string | undefined
+  let captureFrom = 0
+  let captureDepth = 0
+
+  function unexpected(char: string) {
+    return new SyntaxError(
+      `Unexpected ${JSON.stringify(char)} in JSON at line ${line}, column ${column}`
+    )
+  }
+
+  function checkLength(length: number) {
+    if (length > maxLength) {
+      throw new LimitExceededError(
+        `JSON value exceeded the limit of ${maxLength} characters at line ${line}, column ${column}`,
+        { operator: 'parseJsonPath', limit: maxLength }
+      )
+    }
+  }
+
+  function matches() {
+    return (
+      stack.length === segments.length &&
+      stack.every(
+        (frame, depth) =>
+          segments[depth] === undefined || segments[depth] === frame.key
+      )
+    )
+  }
+
+  function beginValue(char: string, index: number) {
+    if (captured === undefined && matches()) {
+      captured = ''
+      captureFrom = index
+      captureDepth = stack.length
+    }
+    if (char === '[' || char === '{') {
+      if (stack.length >= maxDepth) {
+        throw new LimitExceededError(
+          `JSON exceeded the depth limit of ${maxDepth} at line ${line}, column ${column}`,
+          { operator: 'parseJsonPath', limit: maxDepth }
+        )
+      }
+      stack.push({ array: char === '[', key: 0 })
+      state = char === '[' ? 'firstValue' : 'firstKey'
+    } else if (char === '"') {
+      state = 'string'
+      inKey = false
+      keyText = undefined
+    } else if (char === '-' || (char >= '0' && char <= '9')) {
+      state = 'number'
+    } else if (char === 't' || char === 'f' || char === 'n') {
+      state = 'literal'
+    } else {
+      throw unexpected(char)
+    }
+    token = char
+    tokenLine = line
+    tokenColumn = column
+  }
+
+  function beginKey(char: string) {
+    if (char !== '"') throw unexpected(char)
+    state = 'string'
+    inKey = true
+    keyText = stack.length <= segments.length ? '"' : undefined
+  }
+
+  function endValue(
+    end: number,
+    controller: TransformStreamDefaultController<T>
+  ) {
+    if (captured !== undefined && stack.length === captureDepth) {
+      captured += text.slice(captureFrom, end)
+      checkLength(captured.length)
+      controller.enqueue(JSON.parse(captured))
+      captured = undefined
+    }
+    state = stack.length === 0 ? 'end' : 'next'
+  }
+
+  function endNumber(
+    end: number,
+    controller: TransformStreamDefaultController<T>
+  ) {
+    if (!/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(token)) {
+      throw new SyntaxError(
+        `Invalid number ${token} in JSON at line ${tokenLine}, column ${tokenColumn}`
+      )
+    }
+    endValue(end, controller)
+  }
+
+  function step(
+    char: string,
+    index: number,
+    controller: TransformStreamDefaultController<T>
+  ) {
+    const whitespace =
+      char === ' ' || char === '\n' || char === '\r' || char === '\t'
+    switch (state) {
+      case 'string':
+        if (escaped === 0 && char === '"') {
+          if (!inKey) {
+            endValue(index + 1, controller)
+          } else {
+            if (keyText !== undefined) {
+              stack[stack.length - 1].key = JSON.parse(`${keyText}"`)
+            }
+            state = 'colon'
+          }
+          return
+        }
+        if (escaped > 0) {
+          if (!/[\da-fA-F]/.test(char)) throw unexpected(char)
+          escaped--
+        } else if (escaped < 0) {
+          if (char === 'u') {
+            escaped = 4
+          } else if ('"\\/bfnrt'.includes(char)) {
+            escaped = 0
+          } else {
+            throw unexpected(char)
+          }
+        } else if (char === '\\') {
+          escaped = -1
+        } else if (char < ' ') {
+          throw unexpected(char)
+        }
+        if (keyText !== undefined) keyText += char
+        return
+      case 'number':
+        if (/[\d.eE+-]/.test(char)) {
+          token += char
+          return
+        }
+        endNumber(index, controller)
+        return step(char, index, controller)
+      case 'literal': {
+        token += char
+        const literal = ['true', 'false', 'null'].find(word =>
+          word.startsWith(token)
+        )
+        if (literal === undefined) throw unexpected(char)
+        if (literal === token) endValue(index + 1, controller)
+        return
+      }
+    }
+    if (whitespace) return
+    const frame = stack[stack.length - 1]
+    switch (state) {
+      case 'value':
+        return beginValue(char, index)
+      case 'firstValue':
+        if (char !== ']') return beginValue(char, index)
+        stack.pop()
+        return endValue(index + 1, controller)
+      case 'firstKey':
+        if (char !== '}') return beginKey(char)
+        stack.pop()
+        return endValue(index + 1, controller)
+      case 'key':
+        return beginKey(char)
+      case 'colon':
+        if (char !== ':') throw unexpected(char)
+        state = 'value'
+        return
+      case 'next':
+        if (char === ',') {
+          if (frame.array) {
+            frame.key = (frame.key as number) + 1
+            state = 'value'
+          } else {
+            state = 'key'
+          }
+          return
+        }
+        if (char !== (frame.array ? ']' : '}')) throw unexpected(char)
+        stack.pop()
+        return endValue(index + 1, controller)
+      default:
+        throw unexpected(char)
+    }
+  }
+
+  function parse(
+    chunk: string,
+    controller: TransformStreamDefaultController<T>
+  ) {
+    text = chunk
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index]
+      step(char, index, controller)
+      if (char === '\n') {
+        line++
+        column = 1
+      } else {
+        column++
+      }
+    }
+    if (captured !== undefined) {
+      captured += text.slice(captureFrom)
+      captureFrom = 0
+      checkLength(captured.length)
+    }
+  }
+
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        parse(decoder.decode(chunk), controller)
+      },
+      flush(controller) {
+        parse(decoder.end(), controller)
+        if (state === 'number') endNumber(0, controller)
+        if (state !== 'end') {
+          throw new SyntaxError(
+            `Unexpected end of JSON at line ${line}, column ${column}`
+          )
+        }
+      }
+    },
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Parse newline-delimited JSON
+ *
+ * Blank lines are skipped.
+ *
+ * @category Encoding
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that emits the value parsed from each line
+ * @example
+ * ```ts
+ * const events = response.body.pipeThrough(parseNdjson<Event>());
+ * ```
+ */
+export function parseNdjson<T = unknown>({
+  writableStrategy,
+  readableStrategy
+}: StrategyOptions<TextChunk, T> = {}): TransformStream<TextChunk, T> {
+  const lines = splitLines({ writableStrategy })
+  let lineNumber = 0
+  const parser = new TransformStream<string, T>(
+    {
+      transform(line, controller) {
+        lineNumber++
+        if (line.trim() === '') return
+        try {
+          controller.enqueue(JSON.parse(line))
+        } catch (error) {
+          throw new SyntaxError(
+            `Invalid JSON on line ${lineNumber}: ${(error as Error).message}`,
+            { cause: error }
+          )
+        }
+      }
+    },
+    undefined,
+    readableStrategy
+  )
+  return {
+    readable: lines.readable.pipeThrough(parser),
+    writable: lines.writable
+  }
+}
+
+/**
+ * An event parsed by {@link parseSSE}
+ */
+export interface ServerSentEvent {
+  /** The event type. Defaults to `'message'` */
+  event: string
+  /** The data of the event, its lines joined with `\n` */
+  data: string
+  /** The last event ID set by the stream, or `''` */
+  id: string
+  /** The reconnection time last set by the stream, in milliseconds, if any */
+  retry?: number
+}
+
+/**
+ * Options for {@link parseSSE}
+ */
+export interface ParseSSEOptions extends StrategyOptions<
+  TextChunk,
+  ServerSentEvent
+> {
+  /** Maximum length of an event in characters, counting all of its lines, above which the stream errors with a {@link LimitExceededError}. Defaults to `Infinity` */
+  maxEventLength?: number
+}
+
+/**
+ * Parse a Server-Sent Events stream
+ *
+ * Follows the event stream interpretation of the HTML specification: a leading
+ * BOM is skipped, lines end with `\r\n`, `\n` or `\r`, comments and unknown
+ * fields are ignored, `data` lines are joined with `\n`, the last event ID
+ * carries over to the following events, and blocks without data are not
+ * dispatched. An event left unterminated when the stream closes is discarded.
+ *
+ * @category Encoding
+ * @param options - The maximum length of an event and the queuing strategies of the operator
+ * @returns A TransformStream that emits each dispatched event
+ * @example
+ * ```ts
+ * const response = await fetch('/completions', { method: 'POST', body });
+ * const tokens = response.body
+ *   .pipeThrough(parseSSE())
+ *   .pipeThrough(filter(({ event }) => event === 'token'))
+ *   .pipeThrough(map(({ data }) => JSON.parse(data)));
+ * ```
+ */
+export function parseSSE({
+  maxEventLength = Infinity,
+  writableStrategy = byteLengthStrategy(),
+  readableStrategy
+}: ParseSSEOptions = {}): TransformStream<TextChunk, ServerSentEvent> {
+  const decoder = textDecoder()
+  let buffer = ''
+  // Where to look for the next line break, as the rest of the buffer has none
+  let scanned = 0
+  let started = false
+  // The length of the lines of the event read so far
+  let length = 0
+  let index = 0
+  let data = ''
+  let event = ''
+  let id = ''
+  let retry: number | undefined
+
+  function check(pending: number) {
+    if (length + pending > maxEventLength) {
+      throw new LimitExceededError(
+        `Event exceeded the limit of ${maxEventLength} characters`,
+        { operator: 'parseSSE', index, limit: maxEventLength }
+      )
+    }
+  }
+
+  function dispatch(
+    controller: TransformStreamDefaultController<ServerSentEvent>
+  ) {
+    if (data !== '') {
+      const message: ServerSentEvent = {
+        event: event || 'message',
+        data: data.slice(0, -1),
+        id
+      }
+      if (retry !== undefined) {
+        message.retry = retry
+      }
+      controller.enqueue(message)
+      index++
+    }
+    length = 0
+    data = ''
+    event = ''
+  }
+
+  function processLine(
+    line: string,
+    controller: TransformStreamDefaultController<ServerSentEvent>
+  ) {
+    if (line === '') return dispatch(controller)
+    length += line.length + 1
+    check(0)
+    if (line.startsWith(':')) return
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) {
+      value = value.slice(1)
+    }
+
+    if (field === 'event') {
+      event = value
+    } else if (field === 'data') {
+      data += `${value}\n`
+    } else if (field === 'id' && !value.includes('\0')) {
+      id = value
+    } else if (field === 'retry' && /^\d+$/.test(value)) {
+      retry = Number(value)
+    }
+  }
+
+  function processLines(
+    controller: TransformStreamDefaultController<ServerSentEvent>,
+    final: boolean
+  ) {
+    const lineBreak = /\r\n|\r|\n/g
+    lineBreak.lastIndex = scanned
+    let start = 0
+    for (let match; (match = lineBreak.exec(buffer)); ) {
+      // A trailing `\r` may be the first half of a `\r\n` split across chunks
+      if (
+        !final &&
+        match[0] === '\r' &&
+        lineBreak.lastIndex === buffer.length
+      ) {
+        break
+      }
+      processLine(buffer.slice(start, match.index), controller)
+      start = lineBreak.lastIndex
+    }
+    buffer = buffer.slice(start)
+    // Step back over a trailing `\r` in case a `\n` follows
+    scanned = Math.max(0, buffer.length - 1)
+    check(buffer.length)
+  }
+
+  // The decoder already skips the BOM of bytes, leaving that of strings
+  function append(text: string, decoded: boolean) {
+    if (!started && text !== '') {
+      started = true
+      if (!decoded && text.startsWith('\uFEFF')) {
+        text = text.slice(1)
+      }
+    }
+    buffer += text
+  }
+
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        append(decoder.decode(chunk), typeof chunk !== 'string')
+        processLines(controller, false)
+      },
+      flush(controller) {
+        append(decoder.end(), true)
+        processLines(controller, true)
+      }
+    },
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Split a stream in two according to a predicate
+ *
+ * Unlike {@link filter}, chunks that do not match are kept in a second stream.
+ * The source is only read once both streams have room for another chunk, and
+ * it is cancelled once both are cancelled.
+ *
+ * @category Combination
+ * @param stream - The stream to split
+ * @param predicate - A function that decides which stream a chunk goes to
+ * @param options - A signal erroring both streams and cancelling the source
+ * @returns The streams of matching and remaining chunks
+ * @example
+ * ```ts
+ * const [even, odd] = partition(numbers, n => n % 2 === 0);
+ * ```
+ */
+export function partition<T>(
+  stream: ReadableStream<T>,
+  predicate: (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>,
+  options?: SignalOptions
+): [ReadableStream<T>, ReadableStream<T>] {
+  const branch = splitter<T>(
+    'partition',
+    stream,
+    async (chunk, signal) => {
+      const target = (await predicate(chunk, signal)) ? matching : rest
+      target.enqueue(chunk)
+    },
+    options
+  )
+  const matching = branch<T>()
+  const rest = branch<T>()
+  return [matching.readable, rest.readable]
+}
+
+/**
+ * Start a chainable pipeline
+ *
+ * @category Pipeline
+ * @param source - The stream, iterable or async iterable to read from
+ * @returns A {@link Stream} wrapping the source
+ * @example
+ * ```ts
+ * const result = await pipeline([1, 2, 3, 4])
+ *   .filter(n => n % 2 === 0)
+ *   .map(n => n * 10)
+ *   .toArray();
+ * // [20, 40]
+ * ```
+ */
+export function pipeline<T>(
+  source: ReadableStream<T> | Iterable<T> | AsyncIterable<T>
+): Stream<T> {
+  return new Stream(
+    source instanceof ReadableStream ? source : fromIterable(source)
+  )
+}
+
+/**
+ * A ReadableStream wrapper exposing every operator as a chainable method
+ *
+ * Each method pipes the stream through the operator of the same name and
+ * returns a new `Stream`. The wrapper is async iterable; breaking out of a
+ * `for await` loop cancels the stream.
+ *
+ * @category Pipeline
+ * @example
+ * ```ts
+ * for await (const batch of pipeline(users).map(toRow).batch(100)) {
+ *   await insert(batch);
+ * }
+ * ```
+ */
+export class Stream<T> implements AsyncIterable<T> {
+  /**
+   * @param readable - The stream to wrap
+   */
+  constructor(readonly readable: ReadableStream<T>) {}
+
+  /** Pipe the stream through any transform */
+  pipeThrough<R>(transform: TransformStream<T, R>): Stream<R> {
+    return new Stream(this.readable.pipeThrough(transform))
+  }
+
+  /** @see {@link append} */
+  append(items: T[], options: StrategyOptions<T>): Stream<T>
+  append(...items: T[]): Stream<T>
+  append(...args: T[] | [T[], StrategyOptions<T>]): Stream<T> {
+    return this.pipeThrough(append(...(args as T[])))
+  }
+
+  /** @see {@link batch} */
+  batch(sizeOrOptions: number | BatchOptions<T>): Stream<T[]> {
+    return this.pipeThrough(batch(sizeOrOptions))
+  }
+
+  /** @see {@link broadcast} */
+  broadcast(countOrOptions: number | BroadcastOptions): Stream<T>[] {
+    return broadcast(this.readable, countOrOptions).map(
+      readable => new Stream(readable)
+    )
+  }
+
+  /** @see {@link buffer} */
+  buffer(size: number | QueuingStrategy<T>): Stream<T> {
+    return this.pipeThrough(buffer(size))
+  }
+
+  /** @see {@link byteCounter} */
+  byteCounter(
+    this: Stream<Uint8Array>,
+    options?: ByteCounterOptions
+  ): Stream<Uint8Array> & Pick<ByteCounter, 'bytes'> {
+    const counter = byteCounter(options)
+    return Object.assign(this.pipeThrough(counter), { bytes: counter.bytes })
+  }
+
+  /** @see {@link catchError} */
+  catchError<R = T>(
+    handler: (
+      error: unknown,
+      signal: AbortSignal
+    ) => SyncOrAsync<R | ReadableStream<R>>,
+    options?: StrategyOptions<T, T | R> & SignalOptions
+  ): Stream<T | R> {
+    return this.pipeThrough(catchError<T, R>(handler, options))
+  }
+
+  /** @see {@link checkpoint} */
+  checkpoint(options: CheckpointOptions<T, number>): Stream<T>
+  checkpoint<O>(
+    options: CheckpointOptions<T, O> & { offset: (chunk: T) => O }
+  ): Stream<T>
+  checkpoint<O>(
+    options:
+      | CheckpointOptions<T, number>
+      | (CheckpointOptions<T, O> & { offset: (chunk: T) => O })
+  ): Stream<T> {
+    return this.pipeThrough(
+      isCounting(options) ? checkpoint(options) : checkpoint(options)
+    )
+  }
+
+  /** @see {@link combineLatest} */
+  combineLatest<S extends ReadableStream<unknown>[]>(
+    ...streams: S
+  ): Stream<[T, ...StreamValues<S>]> {
+    return new Stream(combineLatest(this.readable, ...streams))
+  }
+
+  /** @see {@link compact} */
+  compact(
+    options?: StrategyOptions<T, NonNullable<T>>
+  ): Stream<NonNullable<T>> {
+    return this.pipeThrough(compact<T>(options))
+  }
+
+  /** @see {@link concat} */
+  concat<R>(...streams: ReadableStream<R>[]): Stream<T | R> {
+    return new Stream(concat(this.readable, ...streams))
+  }
+
+  /** @see {@link concatBytes} */
+  concatBytes(
+    this: Stream<Uint8Array>,
+    options?: ConcatBytesOptions
+  ): Stream<Uint8Array> {
+    return this.pipeThrough(concatBytes(options))
+  }
+
+  /** @see {@link count} */
+  count(options?: ConsumeOptions): Promise<number> {
+    return count(this.readable, options)
+  }
+
+  /** @see {@link debounce} */
+  debounce(ms: number, options?: TimerOptions & StrategyOptions<T>): Stream<T> {
+    return this.pipeThrough(debounce(ms, options))
+  }
+
+  /** @see {@link deflate} */
+  deflate(this: Stream<Uint8Array>): Stream<Uint8Array> {
+    return this.pipeThrough(deflate())
+  }
+
+  /** @see {@link lengthPrefixed} */
+  deframe(
+    this: Stream<Uint8Array>,
+    options?: LengthPrefixedOptions
+  ): Stream<Uint8Array> {
+    return this.pipeThrough(lengthPrefixed(options).deframe())
+  }
+
+  /** @see {@link delay} */
+  delay(ms: number, options?: TimerOptions & StrategyOptions<T>): Stream<T> {
+    return this.pipeThrough(delay(ms, options))
+  }
+
+  /** @see {@link distinct} */
+  distinct<K = T>(
+    keyFn?: (chunk: T, signal: AbortSignal) => SyncOrAsync<K>,
+    options?: DistinctOptions & OperatorOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(distinct(keyFn, options))
+  }
+
+  /** @see {@link distinctUntilChanged} */
+  distinctUntilChanged(
+    equals?: (previous: T, current: T) => boolean,
+    options?: StrategyOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(distinctUntilChanged(equals, options))
+  }
+
+  /** @see {@link encodeSSE} */
+  encodeSSE(
+    this: Stream<ServerSentEventInit | string>,
+    options?: EncodeSSEOptions
+  ): Stream<string> {
+    return this.pipeThrough(encodeSSE(options))
+  }
+
+  /** @see {@link every} */
+  every(
+    predicate: (chunk: T) => SyncOrAsync<boolean>,
+    options?: ConsumeOptions
+  ): Promise<boolean> {
+    return every(this.readable, predicate, options)
+  }
+
+  /** @see {@link filter} */
+  filter(
+    predicate: (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>,
+    options?: OperatorOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(filter(predicate, options))
+  }
+
+  /** @see {@link filterConcurrent} */
+  filterConcurrent(
+    predicate: (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>,
+    options: ConcurrencyOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(filterConcurrent(predicate, options))
+  }
+
+  /** @see {@link find} */
+  find(
+    predicate: (chunk: T) => SyncOrAsync<boolean>,
+    options?: ConsumeOptions
+  ): Promise<T | undefined> {
+    return find(this.readable, predicate, options)
+  }
+
+  /** @see {@link first} */
+  first(options?: ConsumeOptions): Promise<T | undefined> {
+    return first(this.readable, options)
+  }
+
+  /** @see {@link flatMap} */
+  flatMap<R>(
+    fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R[]>,
+    options?: OperatorOptions<T, R>
+  ): Stream<R> {
+    return this.pipeThrough(flatMap(fn, options))
+  }
+
+  /** @see {@link flatMapConcurrent} */
+  flatMapConcurrent<R>(
+    fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R[]>,
+    options: ConcurrencyOptions<T, R>
+  ): Stream<R> {
+    return this.pipeThrough(flatMapConcurrent(fn, options))
+  }
+
+  /** @see {@link flatten} */
+  flatten<U>(this: Stream<U[]>, options?: StrategyOptions<U[], U>): Stream<U> {
+    return this.pipeThrough(flatten<U>(options))
+  }
+
+  /** @see {@link forEach} */
+  forEach(
+    fn: (chunk: T) => SyncOrAsync<void>,
+    options?: ForEachOptions
+  ): Promise<void> {
+    return forEach(this.readable, fn, options)
+  }
+
+  /** @see {@link lengthPrefixed} */
+  frame(
+    this: Stream<Uint8Array>,
+    options?: LengthPrefixedOptions
+  ): Stream<Uint8Array> {
+    return this.pipeThrough(lengthPrefixed(options).frame())
+  }
+
+  /** @see {@link groupBy} */
+  groupBy<K>(
+    keyFn: (chunk: T, signal: AbortSignal) => SyncOrAsync<K>,
+    options?: GroupByOptions
+  ): Stream<Group<K, T>> {
+    return new Stream(groupBy(this.readable, keyFn, options))
+  }
+
+  /** @see {@link gunzip} */
+  gunzip(this: Stream<Uint8Array>): Stream<Uint8Array> {
+    return this.pipeThrough(gunzip())
+  }
+
+  /** @see {@link gzip} */
+  gzip(this: Stream<Uint8Array>): Stream<Uint8Array> {
+    return this.pipeThrough(gzip())
+  }
+
+  /** @see {@link hash} */
+  hash(
+    this: Stream<Uint8Array>,
+    algorithm?: HashAlgorithm,
+    options?: StrategyOptions<Uint8Array>
+  ): Stream<Uint8Array> & Pick<HashTransform, 'digest'> {
+    const hasher = hash(algorithm, options)
+    return Object.assign(this.pipeThrough(hasher), { digest: hasher.digest })
+  }
+
+  /** @see {@link inflate} */
+  inflate(this: Stream<Uint8Array>): Stream<Uint8Array> {
+    return this.pipeThrough(inflate())
+  }
+
+  /** @see {@link instrument} */
+  instrument<R>(
+    transform: TransformStream<T, R>,
+    options: InstrumentOptions
+  ): Stream<R> {
+    return this.pipeThrough(instrument(transform, options))
+  }
+
+  /** @see {@link last} */
+  last(options?: ConsumeOptions): Promise<T | undefined> {
+    return last(this.readable, options)
+  }
+
+  /** @see {@link logProgress} */
+  logProgress(
+    every: number,
+    options?: LogProgressOptions & StrategyOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(logProgress(every, options))
+  }
+
+  /** @see {@link map} */
+  map<R>(
+    fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+    options?: OperatorOptions<T, R>
+  ): Stream<R> {
+    return this.pipeThrough(map(fn, options))
+  }
+
+  /** @see {@link mapConcurrent} */
+  mapConcurrent<R>(
+    fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+    options: ConcurrencyOptions<T, R>
+  ): Stream<R> {
+    return this.pipeThrough(mapConcurrent(fn, options))
+  }
+
+  /** @see {@link mapSettled} */
+  mapSettled<R>(
+    fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+    options?: OperatorOptions<T, Settled<T, R>>
+  ): Stream<Settled<T, R>> {
+    return this.pipeThrough(mapSettled(fn, options))
+  }
+
+  /** @see {@link merge} */
+  merge<R>(...streams: ReadableStream<R>[]): Stream<T | R> {
+    return new Stream(
+      merge<T | R>(this.readable, ...(streams as ReadableStream<T | R>[]))
+    )
+  }
+
+  /** @see {@link pairwise} */
+  pairwise(options?: StrategyOptions<T, [T, T]>): Stream<[T, T]> {
+    return this.pipeThrough(pairwise<T>(options))
+  }
+
+  /** @see {@link parseCsv} */
+  parseCsv(
+    this: Stream<TextChunk>,
+    options: CsvParseOptions &
+      StrategyOptions<TextChunk, Record<string, string>> & {
+        headers: true | string[]
+      }
+  ): Stream<Record<string, string>>
+  parseCsv(
+    this: Stream<TextChunk>,
+    options?: CsvParseOptions & StrategyOptions<TextChunk, string[]>
+  ): Stream<string[]>
+  parseCsv(
+    this: Stream<TextChunk>,
+    options?: CsvParseOptions & StrategyOptions<TextChunk, never>
+  ): Stream<string[] | Record<string, string>> {
+    return this.pipeThrough(parseCsv(options as CsvParseOptions))
+  }
+
+  /** @see {@link parseJsonArray} */
+  parseJsonArray<R = unknown>(
+    this: Stream<TextChunk>,
+    options?: JsonPathOptions<R>
+  ): Stream<R> {
+    return this.pipeThrough(parseJsonArray<R>(options))
+  }
+
+  /** @see {@link parseJsonPath} */
+  parseJsonPath<R = unknown>(
+    this: Stream<TextChunk>,
+    path: string,
+    options?: JsonPathOptions<R>
+  ): Stream<R> {
+    return this.pipeThrough(parseJsonPath<R>(path, options))
+  }
+
+  /** @see {@link parseNdjson} */
+  parseNdjson<R = unknown>(
+    this: Stream<TextChunk>,
+    options?: StrategyOptions<TextChunk, R>
+  ): Stream<R> {
+    return this.pipeThrough(parseNdjson<R>(options))
+  }
+
+  /** @see {@link parseSSE} */
+  parseSSE(
+    this: Stream<TextChunk>,
+    options?: ParseSSEOptions
+  ): Stream<ServerSentEvent> {
+    return this.pipeThrough(parseSSE(options))
+  }
+
+  /** @see {@link partition} */
+  partition(
+    predicate: (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>,
+    options?: SignalOptions
+  ): [Stream<T>, Stream<T>] {
+    const [matching, rest] = partition(this.readable, predicate, options)
+    return [new Stream(matching), new Stream(rest)]
+  }
+
+  /** @see {@link race} */
+  race<R>(...streams: ReadableStream<R>[]): Stream<T | R> {
+    return new Stream(race(this.readable, ...streams))
+  }
+
+  /** @see {@link rateLimit} */
+  rateLimit(options: RateLimitOptions & StrategyOptions<T>): Stream<T> {
+    return this.pipeThrough(rateLimit(options))
+  }
+
+  /** @see {@link rechunk} */
+  rechunk(
+    this: Stream<Uint8Array>,
+    byteSize: number,
+    options?: StrategyOptions<Uint8Array>
+  ): Stream<Uint8Array> {
+    return this.pipeThrough(rechunk(byteSize, options))
+  }
+
+  /** @see {@link reduce} */
+  reduce<R>(
+    reducer: (accumulator: R, chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+    options: ReduceOptions<T, R> & { initialValue: R }
+  ): Stream<R>
+  reduce(
+    reducer: (accumulator: T, chunk: T, signal: AbortSignal) => SyncOrAsync<T>,
+    options?: OperatorOptions<T>
+  ): Stream<T>
+  reduce<R>(
+    reducer: (accumulator: R, chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+    options?: ReduceOptions<T, R>
+  ): Stream<R> {
+    return this.pipeThrough(reduceTransform(reducer, options))
+  }
+
+  /** @see {@link reduceToPromise} */
+  reduceToPromise<R>(
+    reducer: (accumulator: R, chunk: T) => SyncOrAsync<R>,
+    options: ReduceToPromiseOptions<R> & { initialValue: R }
+  ): Promise<R>
+  reduceToPromise(
+    reducer: (accumulator: T, chunk: T) => SyncOrAsync<T>,
+    options?: ConsumeOptions
+  ): Promise<T>
+  reduceToPromise<R>(
+    reducer: (accumulator: R, chunk: T) => SyncOrAsync<R>,
+    options?: ReduceToPromiseOptions<R>
+  ): Promise<R> {
+    return reduceStream(this.readable, reducer, options)
+  }
+
+  /** @see {@link route} */
+  route<
+    R extends Record<
+      string,
+      (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>
+    >
+  >(routes: R, options?: SignalOptions): { [K in keyof R]: Stream<T> } {
+    const readables = route(this.readable, routes, options)
+    return Object.fromEntries(
+      Object.entries(readables).map(([name, readable]) => [
+        name,
+        new Stream(readable)
+      ])
+    ) as { [K in keyof R]: Stream<T> }
+  }
+
+  /** @see {@link scan} */
+  scan<R>(
+    scanner: (accumulator: R, chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+    initialValue: R,
+    options?: OperatorOptions<T, R>
+  ): Stream<R> {
+    return this.pipeThrough(scan(scanner, initialValue, options))
+  }
+
+  /** @see {@link sessionWindow} */
+  sessionWindow(
+    gap: number,
+    keyFn?: (chunk: T, signal: AbortSignal) => SyncOrAsync<unknown>,
+    options?: WindowOptions<T> & OperatorOptions<T, T[]>
+  ): Stream<T[]> {
+    return this.pipeThrough(sessionWindow(gap, keyFn, options))
+  }
+
+  /** @see {@link share} */
+  share(options?: ShareOptions): Shared<T> {
+    return share(this.readable, options)
+  }
+
+  /** @see {@link skip} */
+  skip(count: number, options?: StrategyOptions<T>): Stream<T> {
+    return this.pipeThrough(skip(count, options))
+  }
+
+  /** @see {@link skipWhile} */
+  skipWhile(
+    predicate: (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>,
+    options?: OperatorOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(skipWhile(predicate, options))
+  }
+
+  /** @see {@link some} */
+  some(
+    predicate: (chunk: T) => SyncOrAsync<boolean>,
+    options?: ConsumeOptions
+  ): Promise<boolean> {
+    return some(this.readable, predicate, options)
+  }
+
+  /** @see {@link splitLines} */
+  splitLines(
+    this: Stream<TextChunk>,
+    options?: SplitLinesOptions
+  ): Stream<string> {
+    return this.pipeThrough(splitLines(options))
+  }
+
+  /** @see {@link splitOn} */
+  splitOn(
+    this: Stream<Uint8Array>,
+    delimiter: Uint8Array | string,
+    options?: SplitOnOptions
+  ): Stream<Uint8Array> {
+    return this.pipeThrough(splitOn(delimiter, options))
+  }
+
+  /** @see {@link stringifyCsv} */
+  stringifyCsv<U extends object>(
+    this: Stream<U>,
+    options?: CsvStringifyOptions & StrategyOptions<U, string>
+  ): Stream<string> {
+    return this.pipeThrough(stringifyCsv<U>(options))
+  }
+
+  /** @see {@link stringifyNdjson} */
+  stringifyNdjson(options?: StrategyOptions<T, string>): Stream<string> {
+    return this.pipeThrough(stringifyNdjson<T>(options))
+  }
+
+  /** @see {@link take} */
+  take(limit: number, options?: StrategyOptions<T>): Stream<T> {
+    return this.pipeThrough(take(limit, options))
+  }
+
+  /** @see {@link takeUntil} */
+  takeUntil(
+    notifier: AbortSignal | ReadableStream<unknown>,
+    options?: StrategyOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(takeUntil(notifier, options))
+  }
+
+  /** @see {@link takeWhile} */
+  takeWhile(
+    predicate: (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>,
+    options?: OperatorOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(takeWhile(predicate, options))
+  }
+
+  /** @see {@link tap} */
+  tap(
+    fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<void>,
+    options?: OperatorOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(tap(fn, options))
+  }
+
+  /** @see {@link tapConcurrent} */
+  tapConcurrent(
+    fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<void>,
+    options: ConcurrencyOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(tapConcurrent(fn, options))
+  }
+
+  /**
+   * Decode the stream into a single string, like `Response.text()`
+   *
+   * @see {@link toString}
+   */
+  text(this: Stream<TextChunk>, options?: ConsumeOptions): Promise<string> {
+    return toString(this.readable, options)
+  }
+
+  /** @see {@link throttle} */
+  throttle(
+    ms: number,
+    options?: ThrottleOptions & StrategyOptions<T>
+  ): Stream<T> {
+    return this.pipeThrough(throttle(ms, options))
+  }
+
+  /** @see {@link timeout} */
+  timeout(ms: number, options?: TimerOptions & StrategyOptions<T>): Stream<T> {
+    return this.pipeThrough(timeout(ms, options))
+  }
+
+  /** @see {@link toArray} */
+  toArray(options?: ConsumeOptions): Promise<T[]> {
+    return toArray(this.readable, options)
+  }
+
+  /** @see {@link toBytes} */
+  toBytes(
+    this: Stream<Uint8Array>,
+    options?: ConsumeOptions
+  ): Promise<Uint8Array> {
+    return toBytes(this.readable, options)
+  }
+
+  /** @see {@link toGroups} */
+  toGroups<K>(
+    keyFn: (chunk: T) => SyncOrAsync<K>,
+    options?: ConsumeOptions
+  ): Promise<Map<K, T[]>> {
+    return toGroups(this.readable, keyFn, options)
+  }
+
+  /** @see {@link toMap} */
+  toMap<K, V = T>(
+    keyFn: (chunk: T) => SyncOrAsync<K>,
+    valueFn?: (chunk: T) => SyncOrAsync<V>,
+    options?: ConsumeOptions
+  ): Promise<Map<K, V>> {
+    return toMap(this.readable, keyFn, valueFn, options)
+  }
+
+  /** Unwrap the underlying ReadableStream */
+  toReadableStream(): ReadableStream<T> {
+    return this.readable
+  }
+
+  /** @see {@link windowCount} */
+  windowCount(
+    size: number,
+    slide?: number,
+    options?: StrategyOptions<T, T[]>
+  ): Stream<T[]> {
+    return this.pipeThrough(windowCount(size, slide, options))
+  }
+
+  /** @see {@link windowReduce} */
+  windowReduce<R>(
+    window: TransformStream<T, T[]>,
+    reducer: (accumulator: R, chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+    initialValue: R,
+    options?: SignalOptions
+  ): Stream<R> {
+    return this.pipeThrough(
+      windowReduce(window, reducer, initialValue, options)
+    )
+  }
+
+  /** @see {@link windowTime} */
+  windowTime(
+    ms: number,
+    slide?: number,
+    options?: WindowOptions<T>
+  ): Stream<T[]> {
+    return this.pipeThrough(windowTime(ms, slide, options))
+  }
+
+  /** @see {@link zip} */
+  zip<S extends ReadableStream<unknown>[]>(
+    ...streams: S
+  ): Stream<[T, ...StreamValues<S>]> {
+    return new Stream(zip(this.readable, ...streams))
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    const reader = this.readable.getReader()
+    let done = false
+    try {
+      while (true) {
+        const result = await reader.read()
+        if (result.done) {
+          done = true
+          return
+        }
+        yield result.value
+      }
+    } catch (error) {
+      done = true
+      throw error
+    } finally {
+      if (!done) {
+        await reader.cancel()
+      }
+      reader.releaseLock()
+    }
+  }
+}
+
+/**
+ * Mirror the first stream to emit, cancelling the others
+ *
+ * The first stream to emit a chunk, close or error wins the race. Chunks
+ * already read from the losing streams are discarded.
+ *
+ * @category Combination
+ * @param streams - The streams to race
+ * @returns A ReadableStream that emits the chunks of the winning stream
+ * @example
+ * ```ts
+ * const stream = race(primary, fallback);
+ * ```
+ */
+export function race<S extends ReadableStream<unknown>[]>(
+  ...streams: S
+): ReadableStream<StreamValues<S>[number]> {
+  type T = StreamValues<S>[number]
+  const readers = streams.map(
+    stream => stream.getReader() as ReadableStreamDefaultReader<T>
+  )
+  let winner: ReadableStreamDefaultReader<T> | undefined
+
+  async function readFirst() {
+    try {
+      const first = await Promise.race(
+        readers.map(reader =>
+          reader.read().then(result => ({ reader, result }))
+        )
+      )
+      winner = first.reader
+      await cancelReaders(readers.filter(reader => reader !== winner))
+      return first.result
+    } catch (error) {
+      await cancelReaders(readers, error)
+      throw error
+    }
+  }
+
+  return new ReadableStream<T>({
+    async pull(controller) {
+      if (!winner && readers.length === 0) {
+        controller.close()
+        return
+      }
+
+      const result = winner ? await winner.read() : await readFirst()
+      if (result.done) {
+        controller.close()
+      } else {
+        controller.enqueue(result.value)
+      }
+    },
+    async cancel(reason) {
+      await cancelReaders(winner ? [winner] : readers, reason)
+    }
+  })
+}
+
+/**
+ * Create a ReadableStream of evenly spaced numbers
+ *
+ * @category Stream Creation
+ * @param start - The first number
+ * @param end - The end of the range, excluded
+ * @param step - The difference between consecutive numbers, negative to count down. Defaults to `1`
+ * @param options - A signal aborting the stream
+ * @returns A ReadableStream that emits the numbers from `start` up to, but not including, `end`
+ * @example
+ * ```ts
+ * const stream = range(0, 10, 3); // Emits 0, 3, 6, 9
+ * ```
+ */
+export function range(
+  start: number,
+  end: number,
+  step = 1,
+  { signal }: SignalOptions = {}
+): ReadableStream<number> {
+  if (step === 0 || Number.isNaN(step)) {
+    throw new RangeError('step must be a non-zero number')
+  }
+
+  let current = start
+  return abortableStream<number>(
+    {
+      pull(controller) {
+        if (step > 0 ? current >= end : current <= end) {
+          controller.close()
+        } else {
+          controller.enqueue(current)
+          current += step
+        }
+      }
+    },
+    signal
+  )
+}
+
+/**
+ * Options for {@link rateLimit}
+ */
+export interface RateLimitOptions extends TimerOptions {
+  /** The number of chunks allowed per period */
+  count: number
+  /** The period in milliseconds */
+  per: number
+}
+
+/**
+ * Limit the rate of chunks with a token bucket, delaying chunks over the limit
+ *
+ * Up to `count` chunks pass immediately, after which chunks are spaced so that
+ * no more than `count` pass in any `per` milliseconds. No chunk is dropped.
+ *
+ * @category Transformation
+ * @param options - The allowed number of chunks per period
+ * @returns A TransformStream that delays chunks to stay under the rate limit
+ * @example
+ * ```ts
+ * const stream = ids
+ *   .pipeThrough(rateLimit({ count: 10, per: 1000 }))
+ *   .pipeThrough(map(id => fetchUser(id)));
+ * ```
+ */
+export function rateLimit<T>({
+  count,
+  per,
+  clock = systemClock,
+  writableStrategy,
+  readableStrategy
+}: RateLimitOptions & StrategyOptions<T>): TransformStream<T, T> {
+  if (!(count > 0) || !(per > 0)) {
+    throw new RangeError('count and per must be positive numbers')
+  }
+
+  const cancelled = new AbortController()
+  let tokens = count
+  let last = clock.now()
+
+  return new TransformStream<T, T>(
+    cancellable({
+      async transform(chunk, controller) {
+        const now = clock.now()
+        tokens = Math.min(count, tokens + ((now - last) * count) / per)
+        last = now
+
+        if (tokens < 1) {
+          await sleep(((1 - tokens) * per) / count, cancelled.signal, clock)
+          tokens = 1
+          last = clock.now()
+        }
+
+        tokens--
+        controller.enqueue(chunk)
+      },
+      cancel(reason) {
+        cancelled.abort(reason)
+      }
+    }),
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Re-chunk a byte stream into chunks of a fixed size
+ *
+ * Unlike {@link batch}, which groups chunks by count, the bytes are split and
+ * joined regardless of the size of the chunks they arrived in. The last chunk
+ * holds the remaining bytes and may be smaller.
+ *
+ * @category Encoding
+ * @param byteSize - The number of bytes of each emitted chunk
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that emits `Uint8Array`s of `byteSize` bytes
+ * @example
+ * ```ts
+ * // Upload a file in 5 MiB parts
+ * const parts = file.stream().pipeThrough(rechunk(5 * 1024 * 1024));
+ * ```
+ */
+export function rechunk(
+  byteSize: number,
+  {
+    writableStrategy = byteLengthStrategy(),
+    readableStrategy
+  }: StrategyOptions<Uint8Array> = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  if (!Number.isInteger(byteSize) || byteSize < 1) {
+    throw new RangeError('byteSize must be a positive integer')
+  }
+  const queue = byteQueue()
+
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        queue.push(chunk)
+        while (queue.length >= byteSize) {
+          controller.enqueue(queue.take(byteSize))
+        }
+      },
+      flush(controller) {
+        if (queue.length > 0) {
+          controller.enqueue(queue.take(queue.length))
+        }
+      }
+    },
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Options for {@link reduce}
+ */
+export interface ReduceOptions<T, R> extends OperatorOptions<T, R> {
+  /** The initial accumulator. Without it, the first chunk is the initial accumulator */
+  initialValue?: R
+}
+
+/**
+ * Create a TransformStream that reduces all values to a single value
+ *
+ * With an initial value, an empty stream emits it unchanged. Without one, the
+ * first chunk is the initial accumulator and an empty stream errors with an
+ * {@link EmptyStreamError}. The initial value is passed among the options, so
+ * that the form without one takes options too.
+ *
+ * @category Transformation
+ * @param reducer - The reducer function to apply to each chunk
+ * @param options - The initial value, how to retry a failed reducer, and a signal aborting it
+ * @returns A TransformStream that emits the final reduced value when the stream closes
+ * @example
+ * ```ts
+ * // Sum all numbers in a stream
+ * const stream = readable.pipeThrough(reduce((a, b) => a + b));
+ * const [sum] = await toArray(stream); // Gets the single reduced value
+ *
+ * const totals = orders.pipeThrough(
+ *   reduce((sum, order) => sum + order.amount, { initialValue: 0 })
+ * );
+ * ```
+ */
+export function reduce<T, R>(
+  reducer: (accumulator: R, chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  options: ReduceOptions<T, R> & { initialValue: R }
+): TransformStream<T, R>
+export function reduce<T>(
+  reducer: (accumulator: T, chunk: T, signal: AbortSignal) => SyncOrAsync<T>,
+  options?: OperatorOptions<T>
+): TransformStream<T, T>
+export function reduce<T, R>(
+  reducer: (accumulator: R, chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  options?: ReduceOptions<T, R>
+): TransformStream<T, R> {
+  return reduceTransform(reducer, options)
+}
+
+/**
+ * Options for {@link reduceToPromise}
+ */
+export interface ReduceToPromiseOptions<R> extends ConsumeOptions {
+  /** The initial accumulator. Without it, the first chunk is the initial accumulator */
+  initialValue?: R
+}
+
+/**
+ * Reduce a stream to a single value
+ *
+ * Same as {@link reduce}, without wrapping the result in a stream. The initial
+ * value is passed among the options, so that the form without one takes
+ * options too.
+ *
+ * @category Consumption
+ * @param stream - The readable stream to reduce
+ * @param reducer - The reducer function to apply to each chunk
+ * @param options - The initial value, an AbortSignal to stop reading and a maximum number of chunks
+ * @returns A promise that resolves with the reduced value
+ * @example
+ * ```ts
+ * const total = await reduceToPromise(orders, (sum, order) => sum + order.amount, {
+ *   initialValue: 0,
+ *   signal: AbortSignal.timeout(5000)
+ * });
+ * ```
+ */
+export async function reduceToPromise<T, R>(
+  stream: ReadableStream<T>,
+  reducer: (accumulator: R, chunk: T) => SyncOrAsync<R>,
+  options: ReduceToPromiseOptions<R> & { initialValue: R }
+): Promise<R>
+export async function reduceToPromise<T>(
+  stream: ReadableStream<T>,
+  reducer: (accumulator: T, chunk: T) => SyncOrAsync<T>,
+  options?: ConsumeOptions
+): Promise<T>
+export async function reduceToPromise<T, R>(
+  stream: ReadableStream<T>,
+  reducer: (accumulator: R, chunk: T) => SyncOrAsync<R>,
+  options?: ReduceToPromiseOptions<R>
+): Promise<R> {
+  return reduceStream(stream, reducer, options)
+}
+
+/**
+ * Create a ReadableStream that emits the same value several times
+ *
+ * @category Stream Creation
+ * @param value - The value to emit
+ * @param count - The number of times to emit it. Defaults to `Infinity`
+ * @param options - A signal aborting the stream
+ * @returns A ReadableStream that emits `value` `count` times
+ * @example
+ * ```ts
+ * const stream = repeat('ping', 3); // Emits 'ping', 'ping', 'ping'
+ * ```
+ */
+export function repeat<T>(
+  value: T,
+  count = Infinity,
+  { signal }: SignalOptions = {}
+): ReadableStream<T> {
+  let emitted = 0
+  return abortableStream<T>(
+    {
+      pull(controller) {
+        if (emitted >= count) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+          emitted++
+        }
+      }
+    },
+    signal
+  )
+}
+
+/**
+ * Options for {@link resumable}
+ */
+export interface ResumableOptions<O> extends SignalOptions {
+  /** The store {@link checkpoint} saves the offsets to */
+  store: CheckpointStore<O>
+  /** The key the offsets are saved under */
+  key: string
+  /** Reopen the source from the last saved offset when it errors */
+  retry?: RetryOptions
+}
+
+/**
+ * An offset {@link resumable} opened its source from
+ */
+export interface ResumePoint<O> {
+  /** The offset loaded from the store, or `undefined` on the first run */
+  offset: O | undefined
+  /** The number of chunks emitted before the source was opened */
+  emitted: number
+}
+
+/**
+ * The stream returned by {@link resumable}
+ */
+export interface ResumableStream<T, O> extends ReadableStream<T> {
+  /** The point the source was last opened from before the chunk at `index` was emitted */
+  openedBefore(index: number): ResumePoint<O> | undefined
+}
+
+/**
+ * Create a ReadableStream resuming from the last offset saved by
+ * {@link checkpoint}
+ *
+ * `factory` is called with the offset loaded from the store, or `undefined`
+ * on the first run, and returns the source starting right after it. With
+ * `retry`, a source that errors is reopened from the offset saved by then.
+ * Chunks emitted after that offset are emitted again, so consumers see every
+ * chunk at least once. Pass the stream as the `source` of {@link checkpoint} so
+ * its default offset counts from where the source was reopened.
+ *
+ * @category Checkpointing
+ * @param factory - The function opening the source from an offset
+ * @param options - The store and key to read the offset from, how to retry
+ * and a signal aborting the stream
+ * @returns A ReadableStream that emits the chunks of the source, telling the
+ * offsets it opened the source from
+ * @example
+ * ```ts
+ * import { fileCheckpointStore } from 'web-streams-utils/interop';
+ *
+ * const store = fileCheckpointStore<string>('./checkpoints.json');
+ * const pages = resumable(
+ *   cursor => fromIterable(fetchPages(cursor)),
+ *   { store, key: 'sync', retry: { attempts: 5 } }
+ * );
+ * await pages
+ *   .pipeThrough(map(savePage))
+ *   .pipeThrough(checkpoint({ store, key: 'sync', offset: page => page.next }))
+ *   .pipeTo(new WritableStream());
+ * ```
+ */
+export function resumable<T, O = number>(
+  factory: (
+    offset: O | undefined
+  ) => SyncOrAsync<ReadableStream<T> | Iterable<T> | AsyncIterable<T>>,
+  { store, key, retry, signal }: ResumableOptions<O>
+): ResumableStream<T, O> {
+  let reader: ReadableStreamDefaultReader<T> | undefined
+  let emitted = 0
+  const opened: ResumePoint<O>[] = []
+
+  const read = withRetry(
+    async () => {
+      if (!reader) {
+        const offset = await store.load(key)
+        opened.push({ offset, emitted })
+        const source = await factory(offset)
+        reader = (
+          source instanceof ReadableStream ? source : fromIterable(source)
+        ).getReader()
+      }
+      try {
+        return await reader.read()
+      } catch (error) {
+        reader = undefined
+        throw error
+      }
+    },
+    retryWithSignal(retry, signal)
+  )
+
+  const stream = abortableStream<T>(
+    {
+      async pull(controller) {
+        const result = await read(undefined)
+        if (result.done) {
+          controller.close()
+        } else {
+          emitted++
+          controller.enqueue(result.value)
+        }
+      },
+      cancel: reason => reader?.cancel(reason)
+    },
+    signal
+  )
+  return Object.assign(stream, {
+    openedBefore: (index: number) =>
+      opened.findLast(point => point.emitted <= index)
+  })
+}
+
+/**
+ * Split a stream into named streams
+ *
+ * Each chunk goes to the first route whose predicate matches it, and chunks
+ * that match no route are discarded. The source is only read once every route
+ * has room for another chunk, and it is cancelled once every route is
+ * cancelled.
+ *
+ * @category Combination
+ * @param stream - The stream to split
+ * @param routes - A predicate for each route
+ * @param options - A signal erroring every route and cancelling the source
+ * @returns A ReadableStream for each route
+ * @example
+ * ```ts
+ * const { errors, warnings } = route(logs, {
+ *   errors: log => log.level === 'error',
+ *   warnings: log => log.level === 'warn'
+ * });
+ * ```
+ */
+export function route<
+  T,
+  R extends Record<
+    string,
+    (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>
+  >
+>(
+  stream: ReadableStream<T>,
+  routes: R,
+  options?: SignalOptions
+): { [K in keyof R]: ReadableStream<T> } {
+  const branch = splitter<T>(
+    'route',
+    stream,
+    async (chunk, signal) => {
+      for (const [name, target] of targets) {
+        if (await routes[name](chunk, signal)) {
+          target.enqueue(chunk)
+          return
+        }
+      }
+    },
+    options
+  )
+  const targets = Object.keys(routes).map(name => [name, branch<T>()] as const)
+  return Object.fromEntries(
+    targets.map(([name, target]) => [name, target.readable])
+  ) as { [K in keyof R]: ReadableStream<T> }
+}
+
+/**
+ * Create a TransformStream that produces a stream of accumulated values
+ *
+ * @category Transformation
+ * @param scanner - The scanner function to apply to each chunk
+ * @param initialValue - The initial value for the scan
+ * @param options - How to retry a failed scanner, and a signal aborting it
+ * @returns A TransformStream that emits each intermediate accumulated value
+ * @example
+ * ```ts
+ * // Calculate running sum
+ * const stream = readable.pipeThrough(scan((acc, x) => acc + x, 0));
+ * // If readable emits [1, 2, 3], the result will be [1, 3, 6]
+ * ```
+ */
+export function scan<T, R>(
+  scanner: (accumulator: R, chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  initialValue: R,
+  options: OperatorOptions<T, R> = {}
+): TransformStream<T, R> {
+  let accumulator = initialValue
+  return callbackTransform(
+    'scan',
+    (chunk: T, signal) => scanner(accumulator, chunk, signal),
+    options,
+    async (chunk, run, controller) => {
+      accumulator = await run(chunk)
+      controller.enqueue(accumulator)
+    }
+  )
+}
+
+/**
+ * Options for {@link windowTime} and {@link sessionWindow}
+ */
+export interface WindowOptions<T>
+  extends TimerOptions, StrategyOptions<T, T[]> {
+  /** Read the event time of a chunk in milliseconds. Defaults to the time the chunk is received */
+  timestamp?: (chunk: T) => number
+  /** How long a window stays open for late chunks after its end, in event time milliseconds. Defaults to `0` */
+  allowedLateness?: number
+}
+
+/**
+ * Group chunks into sessions separated by gaps of inactivity
+ *
+ * A session is emitted once no chunk with its key has arrived for `gap`
+ * milliseconds. With a `timestamp` extractor, time is the event time: a session
+ * closes once the latest timestamp seen is `allowedLateness` past its end, and
+ * chunks of sessions that were already emitted are dropped. Open sessions are
+ * emitted when the source closes.
+ *
+ * @category Transformation
+ * @param gap - The inactivity in milliseconds that ends a session
+ * @param keyFn - A function that computes the key of a chunk, to track sessions per key
+ * @param options - The event time extractor and allowed lateness, how to retry a failed `keyFn`, and a signal aborting it
+ * @returns A TransformStream that emits each session as an array
+ * @example
+ * ```ts
+ * const visits = clicks.pipeThrough(
+ *   sessionWindow(30 * 60_000, click => click.userId, {
+ *     timestamp: click => click.time
+ *   })
+ * );
+ * ```
+ */
+export function sessionWindow<T>(
+  gap: number,
+  keyFn: (chunk: T, signal: AbortSignal) => SyncOrAsync<unknown> = () =>
+    undefined,
+  {
+    timestamp,
+    allowedLateness = 0,
+    clock = systemClock,
+    ...options
+  }: WindowOptions<T> & OperatorOptions<T, T[]> = {}
+): TransformStream<T, T[]> {
+  if (!(gap > 0)) {
+    throw new RangeError('gap must be a positive number')
+  }
+
+  type Session = { chunks: T[]; start: number; last: number; timer?: unknown }
+  const sessions = new Map<unknown, Session>()
+  let watermark = -Infinity
+
+  function close(
+    controller: TransformStreamDefaultController<T[]>,
+    key: unknown,
+    session: Session
+  ) {
+    clock.clearTimeout(session.timer)
+    sessions.delete(key)
+    controller.enqueue(session.chunks)
+  }
+
+  function closeUntil(
+    controller: TransformStreamDefaultController<T[]>,
+    until: number
+  ) {
+    const expired = [...sessions]
+      .filter(([, session]) => session.last + gap <= until)
+      .sort(([, a], [, b]) => a.start - b.start)
+    expired.forEach(([key, session]) => close(controller, key, session))
+  }
+
+  function clearTimers() {
+    sessions.forEach(session => clock.clearTimeout(session.timer))
+  }
+
+  return callbackTransform(
+    'sessionWindow',
+    keyFn,
+    options,
+    async (chunk, computeKey, controller) => {
+      let key: unknown
+      try {
+        key = await computeKey(chunk)
+      } catch (error) {
+        clearTimers()
+        throw error
+      }
+      const time = timestamp ? timestamp(chunk) : clock.now()
+      let session = sessions.get(key)
+
+      if (session && time >= session.last + gap) {
+        close(controller, key, session)
+        session = undefined
+      }
+      if (session ? time <= session.start - gap : time + gap <= watermark) {
+        return
+      }
+
+      if (session) {
+        session.chunks.push(chunk)
+        session.start = Math.min(session.start, time)
+        session.last = Math.max(session.last, time)
+      } else {
+        session = { chunks: [chunk], start: time, last: time }
+        sessions.set(key, session)
+      }
+
+      if (timestamp) {
+        watermark = Math.max(watermark, time - allowedLateness)
+        closeUntil(controller, watermark)
+      } else {
+        const current = session
+        clock.clearTimeout(current.timer)
+        current.timer = clock.setTimeout(
+          () => close(controller, key, current),
+          gap
+        )
+      }
+    },
+    {
+      flush(controller) {
+        closeUntil(controller, Infinity)
+      },
+      cancel: clearTimers
+    }
+  )
+}
+
+/**
+ * Options for {@link share}
+ */
+export interface ShareOptions extends ConsumerOptions {
+  /** The number of latest chunks replayed to each new subscriber. Defaults to `0` */
+  replay?: number
+}
+
+/**
+ * A stream shared between subscribers
+ *
+ * @see {@link share}
+ */
+export interface Shared<T> {
+  /** Create a new consumer of the shared stream */
+  subscribe(options?: ConsumerOptions): ReadableStream<T>
+}
+
+/**
+ * Share a stream between subscribers that may come and go
+ *
+ * Each subscriber gets the chunks read after it subscribed, preceded by up to
+ * `replay` of the latest chunks. Buffering follows the same per-consumer
+ * policies as {@link broadcast}, and the source is cancelled once every
+ * subscriber has cancelled.
+ *
+ * @category Combination
+ * @param stream - The stream to share
+ * @param options - The number of chunks to replay and the default consumer options
+ * @returns A handle to subscribe to the stream
  * @example
  * ```ts
- * const stream = readable.pipeThrough(append(4, 5, 6));
- * // If readable emits [1, 2, 3], the result will be [1, 2, 3, 4, 5, 6]
+ * const prices = share(ticker, { replay: 1 });
+ * const chart = prices.subscribe();
+ * // Later, starting with the latest price
+ * const alerts = prices.subscribe({ policy: 'drop-oldest' });
  * ```
  */
-export function append<T>(...items: T[]): TransformStream<T, T> {
-  return new TransformStream({
-    flush(controller) {
-      items.forEach(item => {
-        controller.enqueue(item)
-      })
+export function share<T>(
+  stream: ReadableStream<T>,
+  { replay = 0, ...defaults }: ShareOptions = {}
+): Shared<T> {
+  type Consumer = {
+    controller: ReadableStreamDefaultController<T>
+    buffer: T[]
+    policy: ConsumerPolicy
+    bufferSize: number
+    demand: boolean
+  }
+
+  const reader = stream.getReader()
+  const consumers = new Set<Consumer>()
+  const history: T[] = []
+  let state: 'open' | 'closed' | 'errored' = 'open'
+  let failure: unknown
+  let reading = false
+
+  function deliver(consumer: Consumer, chunk: T) {
+    const { controller, buffer, policy, bufferSize } = consumer
+    if (consumer.demand) {
+      consumer.demand = false
+      controller.enqueue(chunk)
+    } else if (buffer.length < bufferSize || policy === 'block') {
+      buffer.push(chunk)
+    } else if (policy === 'drop-oldest') {
+      buffer.shift()
+      buffer.push(chunk)
+    } else if (policy === 'error') {
+      const error = new LimitExceededError(
+        `Buffer exceeded ${bufferSize} chunks`,
+        { operator: 'share', limit: bufferSize }
+      )
+      consumers.delete(consumer)
+      controller.error(error)
+      release(error)
     }
-  })
+  }
+
+  function canRead() {
+    let demand = false
+    for (const consumer of consumers) {
+      if (
+        consumer.policy === 'block' &&
+        consumer.buffer.length >= consumer.bufferSize
+      ) {
+        return false
+      }
+      demand ||= consumer.demand
+    }
+    return demand
+  }
+
+  function pump() {
+    if (reading || state !== 'open' || !canRead()) return
+    reading = true
+    reader.read().then(
+      result => {
+        reading = false
+        if (state !== 'open') return
+        if (result.done) {
+          state = 'closed'
+          consumers.forEach(consumer => {
+            if (consumer.buffer.length === 0) {
+              consumer.controller.close()
+            }
+          })
+          return
+        }
+
+        if (replay > 0) {
+          history.push(result.value)
+          if (history.length > replay) {
+            history.shift()
+          }
+        }
+        consumers.forEach(consumer => deliver(consumer, result.value))
+        pump()
+      },
+      error => {
+        reading = false
+        state = 'errored'
+        failure = error
+        consumers.forEach(consumer => consumer.controller.error(error))
+        consumers.clear()
+      }
+    )
+  }
+
+  function release(reason?: unknown) {
+    if (consumers.size === 0 && state === 'open') {
+      state = 'closed'
+      cancelReaders([reader], reason)
+    } else {
+      pump()
+    }
+  }
+
+  return {
+    subscribe({
+      policy = defaults.policy ?? 'block',
+      bufferSize = defaults.bufferSize ?? 16
+    }: ConsumerOptions = {}) {
+      let consumer!: Consumer
+
+      return new ReadableStream<T>(
+        {
+          start(controller) {
+            consumer = {
+              controller,
+              buffer: [...history],
+              policy,
+              bufferSize,
+              demand: false
+            }
+            if (state === 'errored') {
+              controller.error(failure)
+            } else if (state === 'closed' && history.length === 0) {
+              controller.close()
+            } else if (state === 'open') {
+              consumers.add(consumer)
+            }
+          },
+          pull(controller) {
+            if (consumer.buffer.length > 0) {
+              controller.enqueue(consumer.buffer.shift()!)
+              if (state === 'closed' && consumer.buffer.length === 0) {
+                controller.close()
+              }
+            } else {
+              consumer.demand = true
+            }
+            pump()
+          },
+          cancel(reason) {
+            consumers.delete(consumer)
+            release(reason)
+          }
+        },
+        { highWaterMark: 0 }
+      )
+    }
+  }
 }
 
 /**
- * Batch chunks into arrays of specified size
+ * Skip a number of chunks from the beginning of a stream
  *
  * @category Transformation
- * @param size - The size of each batch
- * @returns A TransformStream that groups chunks into batches
+ * @param count - The number of chunks to skip
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that skips the specified number of chunks
  * @example
  * ```ts
- * const stream = readable.pipeThrough(batch(3));
- * // If readable emits [1, 2, 3, 4, 5], the result will be [[1, 2, 3], [4, 5]]
+ * const stream = readable.pipeThrough(skip(2));
+ * // The first 2 chunks will be skipped
  * ```
  */
-export function batch<T>(size: number): TransformStream<T, T[]> {
-  let buffer: T[] = []
+export function skip<T>(
+  count: number,
+  options: StrategyOptions<T> = {}
+): TransformStream<T, T> {
+  let skipped = 0
 
-  return new TransformStream({
-    transform(chunk, controller) {
-      buffer.push(chunk)
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        if (skipped < count) {
+          skipped++
+          return
+        }
 
-      if (buffer.length >= size) {
-        controller.enqueue([...buffer])
-        buffer = []
+        controller.enqueue(chunk)
       }
     },
-    flush(controller) {
-      if (buffer.length > 0) {
-        controller.enqueue(buffer)
+    options.writableStrategy,
+    options.readableStrategy
+  )
+}
+
+/**
+ * Skip chunks from the beginning of a stream while they satisfy a predicate
+ *
+ * @category Transformation
+ * @param predicate - The predicate to test each chunk with until it fails
+ * @param options - How to retry a failed predicate, and a signal aborting it
+ * @returns A TransformStream that emits every chunk from the first one that fails the predicate
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(skipWhile(n => n < 3));
+ * // If readable emits [1, 2, 3, 1], the result will be [3, 1]
+ * ```
+ */
+export function skipWhile<T>(
+  predicate: (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>,
+  options: OperatorOptions<T> = {}
+): TransformStream<T, T> {
+  let skipping = true
+
+  return callbackTransform(
+    'skipWhile',
+    predicate,
+    options,
+    async (chunk, test, controller) => {
+      skipping &&= await test(chunk)
+      if (!skipping) {
+        controller.enqueue(chunk)
       }
     }
-  })
+  )
 }
 
 /**
- * Remove null and undefined values from a stream
+ * Check whether any chunk of a stream satisfies a predicate
+ *
+ * The stream is cancelled as soon as a chunk satisfies the predicate.
+ *
+ * @category Consumption
+ * @param stream - The readable stream to check
+ * @param predicate - The predicate to test each chunk with
+ * @param options - The abort signal and the maximum number of chunks to read
+ * @returns A promise that resolves to `true` if any chunk satisfies the predicate
+ * @example
+ * ```ts
+ * const hasErrors = await some(logs, line => line.includes('ERROR'));
+ * ```
+ */
+export async function some<T>(
+  stream: ReadableStream<T>,
+  predicate: (chunk: T) => SyncOrAsync<boolean>,
+  options?: ConsumeOptions
+): Promise<boolean> {
+  let result = false
+  await consume(
+    'some',
+    stream,
+    async chunk => {
+      if (await predicate(chunk)) {
+        result = true
+        return true
+      }
+    },
+    options
+  )
+  return result
+}
+
+/**
+ * Options for {@link splitLines}
+ */
+export interface SplitLinesOptions extends StrategyOptions<TextChunk, string> {
+  /** Maximum length of a line in characters, above which the stream errors with a {@link LimitExceededError}. Defaults to `Infinity` */
+  maxLineLength?: number
+}
+
+/**
+ * Split text into lines
+ *
+ * Lines are split on `\n` and `\r\n`, including line breaks and multi-byte
+ * characters that span chunk boundaries. Line breaks are not included in the
+ * emitted lines.
+ *
+ * @category Encoding
+ * @param options - The maximum length of a line and the queuing strategies of the operator
+ * @returns A TransformStream that emits each line of the text
+ * @example
+ * ```ts
+ * const lines = response.body.pipeThrough(splitLines());
+ * // If the body is 'a\r\nb\nc', the result will be ['a', 'b', 'c']
+ * ```
+ */
+export function splitLines({
+  maxLineLength = Infinity,
+  writableStrategy = byteLengthStrategy(),
+  readableStrategy
+}: SplitLinesOptions = {}): TransformStream<TextChunk, string> {
+  const decoder = textDecoder()
+  // The text of the current line, in pieces joined once it ends
+  let pieces: string[] = []
+  let length = 0
+  let index = 0
+
+  function check(lineLength: number) {
+    if (lineLength > maxLineLength) {
+      throw new LimitExceededError(
+        `Line exceeded the limit of ${maxLineLength} characters`,
+        { operator: 'splitLines', index, limit: maxLineLength }
+      )
+    }
+  }
+
+  function emit(
+    controller: TransformStreamDefaultController<string>,
+    line: string
+  ) {
+    const text = line.endsWith('\r') ? line.slice(0, -1) : line
+    check(text.length)
+    controller.enqueue(text)
+    index++
+  }
+
+  // Only search the new text, so a long line spanning many chunks is not
+  // scanned again for every chunk
+  function push(
+    controller: TransformStreamDefaultController<string>,
+    text: string
+  ) {
+    let start = 0
+    for (
+      let end = text.indexOf('\n');
+      end !== -1;
+      end = text.indexOf('\n', start)
+    ) {
+      pieces.push(text.slice(start, end))
+      emit(controller, pieces.join(''))
+      pieces = []
+      length = 0
+      start = end + 1
+    }
+    const rest = text.slice(start)
+    pieces.push(rest)
+    length += rest.length
+    // A carriage return at the end may start the next line break
+    check(rest.endsWith('\r') ? length - 1 : length)
+  }
+
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        push(controller, decoder.decode(chunk))
+      },
+      flush(controller) {
+        push(controller, decoder.end())
+        if (length > 0) {
+          emit(controller, pieces.join(''))
+        }
+      }
+    },
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Options for {@link splitOn}
+ */
+export interface SplitOnOptions extends StrategyOptions<Uint8Array> {
+  /** Maximum length of a segment in bytes, above which the stream errors with a {@link LimitExceededError}. Defaults to `Infinity` */
+  maxSegmentLength?: number
+}
+
+/**
+ * Split a byte stream on a delimiter
+ *
+ * Delimiters spanning chunk boundaries are found too, and are not included in
+ * the emitted segments. The bytes after the last delimiter are emitted when
+ * the stream closes, unless there are none.
+ *
+ * @category Encoding
+ * @param delimiter - The bytes separating segments, or a string encoded as UTF-8
+ * @param options - The maximum length of a segment and the queuing strategies of the operator
+ * @returns A TransformStream that emits the segments between delimiters
+ * @example
+ * ```ts
+ * // Split a stream of NUL-separated records
+ * const records = body.pipeThrough(splitOn(new Uint8Array([0])));
+ * ```
+ */
+export function splitOn(
+  delimiter: Uint8Array | string,
+  {
+    maxSegmentLength = Infinity,
+    writableStrategy = byteLengthStrategy(),
+    readableStrategy
+  }: SplitOnOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  const separator =
+    typeof delimiter === 'string'
+      ? new TextEncoder().encode(delimiter)
+      : delimiter
+  if (separator.byteLength === 0) {
+    throw new RangeError('delimiter must not be empty')
+  }
+  // The bytes of the current segment, copied once it ends
+  const segment = byteQueue()
+  // The end of the segment, which may be the start of a delimiter
+  let tail = new Uint8Array(0)
+  let index = 0
+
+  // Find the delimiter in `tail` followed by `chunk`, as an index in `chunk`
+  // which is negative when the delimiter starts in `tail`
+  function indexOf(chunk: Uint8Array): number | undefined {
+    const at = (i: number) =>
+      i < tail.byteLength ? tail[i] : chunk[i - tail.byteLength]
+    const last = tail.byteLength + chunk.byteLength - separator.byteLength
+    for (let i = 0; i <= last; i++) {
+      let j = 0
+      while (j < separator.byteLength && at(i + j) === separator[j]) j++
+      if (j === separator.byteLength) return i - tail.byteLength
+    }
+  }
+
+  function check(length: number) {
+    if (length > maxSegmentLength) {
+      throw new LimitExceededError(
+        `Segment exceeded the limit of ${maxSegmentLength} bytes`,
+        { operator: 'splitOn', index, limit: maxSegmentLength }
+      )
+    }
+  }
+
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        let rest = chunk
+        for (let end = indexOf(rest); end !== undefined; end = indexOf(rest)) {
+          segment.push(rest.subarray(0, Math.max(0, end)))
+          const length = segment.length + Math.min(0, end)
+          check(length)
+          controller.enqueue(segment.take(length))
+          // Drop the start of the delimiter left in the queue
+          segment.take(segment.length)
+          index++
+          tail = new Uint8Array(0)
+          rest = rest.subarray(end + separator.byteLength)
+        }
+        segment.push(rest)
+        // Only the end of the segment can start a delimiter
+        const kept = separator.byteLength - 1
+        const bytes = rest.byteLength >= kept ? rest : joinBytes([tail, rest])
+        tail = bytes.slice(Math.max(0, bytes.byteLength - kept))
+        check(segment.length - tail.byteLength)
+      },
+      flush(controller) {
+        if (segment.length > 0) {
+          check(segment.length)
+          controller.enqueue(segment.take(segment.length))
+        }
+      }
+    },
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Options for {@link stringifyCsv}
+ */
+export interface CsvStringifyOptions {
+  /** The field delimiter. Defaults to `','` */
+  delimiter?: string
+  /** The line terminator. Defaults to `'\r\n'` */
+  newline?: string
+  /**
+   * The columns of object rows, in order. Defaults to the keys of the first
+   * row. A header row is written before the first object row.
+   */
+  headers?: string[]
+}
+
+/**
+ * Serialize rows to CSV text, as described by RFC 4180
+ *
+ * Fields containing the delimiter, quotes or line breaks are quoted. `null` and
+ * `undefined` are written as empty fields.
+ *
+ * @category Encoding
+ * @param options - The delimiter, line terminator and columns
+ * @returns A TransformStream that emits one CSV line per row
+ * @example
+ * ```ts
+ * const csv = fromIterable([{ name: 'Ada', age: 36 }]).pipeThrough(stringifyCsv());
+ * // Emits 'name,age\r\n', 'Ada,36\r\n'
+ * ```
+ */
+export function stringifyCsv<T extends object>({
+  delimiter = ',',
+  newline = '\r\n',
+  headers,
+  writableStrategy,
+  readableStrategy
+}: CsvStringifyOptions & StrategyOptions<T, string> = {}): TransformStream<
+  T,
+  string
+> {
+  let columns = headers
+  let headerWritten = false
+
+  function line(fields: readonly unknown[]): string {
+    return (
+      fields
+        .map(value => {
+          const text =
+            value === null || value === undefined ? '' : String(value)
+          return /["\r\n]/.test(text) || text.includes(delimiter)
+            ? `"${text.replaceAll('"', '""')}"`
+            : text
+        })
+        .join(delimiter) + newline
+    )
+  }
+
+  return new TransformStream(
+    {
+      transform(row, controller) {
+        if (Array.isArray(row)) {
+          controller.enqueue(line(row))
+          return
+        }
+
+        const record = row as Record<string, unknown>
+        columns ??= Object.keys(record)
+        if (!headerWritten) {
+          controller.enqueue(line(columns))
+          headerWritten = true
+        }
+        controller.enqueue(line(columns.map(column => record[column])))
+      }
+    },
+    writableStrategy,
+    readableStrategy
+  )
+}
+
+/**
+ * Serialize chunks to newline-delimited JSON
+ *
+ * @category Encoding
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that emits each chunk as a line of JSON
+ * @example
+ * ```ts
+ * const body = readable
+ *   .pipeThrough(stringifyNdjson())
+ *   .pipeThrough(new TextEncoderStream());
+ * ```
+ */
+export function stringifyNdjson<T>(
+  options: StrategyOptions<T, string> = {}
+): TransformStream<T, string> {
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        controller.enqueue(`${JSON.stringify(chunk)}\n`)
+      }
+    },
+    options.writableStrategy,
+    options.readableStrategy
+  )
+}
+
+/**
+ * Tap function for side effects without modifying the stream
  *
  * @category Transformation
- * @returns A TransformStream that filters out null and undefined values
+ * @param fn - The function to execute for each chunk (for side effects)
+ * @param options - How to retry a failed side effect
+ * @returns A TransformStream that passes chunks unchanged after executing the function
  * @example
  * ```ts
- * const readable = new ReadableStream({
- *   start(controller) {
- *     const items = [1, null, 2, undefined, 3]
- *     items.forEach(item => {
- *       controller.enqueue(item)
- *     })
- *   }
- * })
- * const stream = readable.pipeThrough(compact());
- * // If readable emits [1, null, 2, undefined, 3], the result will be [1, 2, 3]
+ * const stream = readable.pipeThrough(tap(x => console.log(`Processing: ${x}`)));
+ * ```
+ */
+export function tap<T>(
+  fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<void>,
+  options: OperatorOptions<T, T> = {}
+): TransformStream<T, T> {
+  return callbackTransform(
+    'tap',
+    fn,
+    options,
+    async (chunk, run, controller) => {
+      await run(chunk)
+      controller.enqueue(chunk)
+    }
+  )
+}
+
+/**
+ * Tap function for async side effects, running several calls concurrently
+ *
+ * @category Transformation
+ * @param fn - The function to execute for each chunk (for side effects)
+ * @param options - The concurrency limit and whether to preserve input order
+ * @returns A TransformStream that passes chunks unchanged after executing the function
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(
+ *   tapConcurrent(async x => save(x), { concurrency: 4 })
+ * );
+ * ```
+ */
+export function tapConcurrent<T>(
+  fn: (chunk: T, signal: AbortSignal) => SyncOrAsync<void>,
+  options: ConcurrencyOptions<T, T>
+): TransformStream<T, T> {
+  return concurrentTransform<T, void, T>(
+    'tapConcurrent',
+    fn,
+    (controller, _, chunk) => {
+      controller.enqueue(chunk)
+    },
+    options
+  )
+}
+
+/**
+ * Limit the number of chunks from a stream
+ *
+ * @category Transformation
+ * @param limit - The maximum number of chunks to pass through
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that limits the number of chunks
+ * @example
+ * ```ts
+ * const stream = readable.pipeThrough(take(3));
+ * // Only the first 3 chunks will pass through
+ * ```
+ */
+export function take<T>(
+  limit: number,
+  options: StrategyOptions<T> = {}
+): TransformStream<T, T> {
+  let count = 0
+
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        if (count < limit) {
+          controller.enqueue(chunk)
+          count++
+        }
+
+        if (count >= limit) {
+          controller.terminate()
+        }
+      }
+    },
+    options.writableStrategy,
+    options.readableStrategy
+  )
+}
+
+/**
+ * Pass chunks through until a signal aborts or another stream emits
+ *
+ * The stream then closes and its source is cancelled. If `notifier` is a
+ * stream, it is cancelled as well once it has emitted or the stream is done,
+ * and its errors are forwarded.
+ *
+ * @category Transformation
+ * @param notifier - An AbortSignal, or a stream whose first chunk ends the stream
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that stops passing chunks once notified
+ * @example
+ * ```ts
+ * const stream = ticks.pipeThrough(takeUntil(AbortSignal.timeout(5000)));
  * ```
  */
-export function compact<T>(): TransformStream<T, NonNullable<T>> {
-  return new TransformStream({
-    async transform(chunk, controller) {
-      if (chunk !== null && chunk !== undefined) {
-        controller.enqueue(chunk)
+export function takeUntil<T>(
+  notifier: AbortSignal | ReadableStream<unknown>,
+  options: StrategyOptions<T> = {}
+): TransformStream<T, T> {
+  let stopped = false
+  let stop = () => {}
+
+  return new TransformStream<T, T>(
+    cancellable({
+      start(controller) {
+        function end() {
+          if (stopped) return
+          stop()
+          controller.terminate()
+        }
+
+        if (notifier instanceof ReadableStream) {
+          const reader = notifier.getReader()
+          stop = () => {
+            stopped = true
+            cancelReaders([reader])
+          }
+          reader.read().then(
+            ({ done }) => {
+              if (!done) end()
+            },
+            error => {
+              if (stopped) return
+              stop()
+              controller.error(error)
+            }
+          )
+        } else if (notifier.aborted) {
+          controller.terminate()
+        } else {
+          notifier.addEventListener('abort', end, { once: true })
+          stop = () => {
+            stopped = true
+            notifier.removeEventListener('abort', end)
+          }
+        }
+      },
+      flush() {
+        stop()
+      },
+      cancel() {
+        stop()
       }
-    }
-  })
+    }),
+    options.writableStrategy,
+    options.readableStrategy
+  )
 }
 
 /**
- * Filter function for filtering stream chunks
+ * Pass chunks through while they satisfy a predicate
+ *
+ * The stream closes and its source is cancelled at the first chunk that fails
+ * the predicate, which is not emitted.
  *
  * @category Transformation
- * @param predicate - The predicate function to determine which chunks to keep
- * @returns A TransformStream that only passes chunks that satisfy the predicate
+ * @param predicate - The predicate to test each chunk with
+ * @param options - How to retry a failed predicate, and a signal aborting it
+ * @returns A TransformStream that emits chunks until one fails the predicate
  * @example
  * ```ts
- * const stream = readable.pipeThrough(filter(x => x > 10));
+ * const stream = readable.pipeThrough(takeWhile(n => n < 3));
+ * // If readable emits [1, 2, 3, 1], the result will be [1, 2]
  * ```
  */
-export function filter<T>(
-  predicate: (chunk: T) => SyncOrAsync<boolean>
+export function takeWhile<T>(
+  predicate: (chunk: T, signal: AbortSignal) => SyncOrAsync<boolean>,
+  options: OperatorOptions<T> = {}
 ): TransformStream<T, T> {
-  return new TransformStream({
-    async transform(chunk, controller) {
-      if (await predicate(chunk)) {
+  return callbackTransform(
+    'takeWhile',
+    predicate,
+    options,
+    async (chunk, test, controller) => {
+      if (await test(chunk)) {
         controller.enqueue(chunk)
+      } else {
+        controller.terminate()
       }
     }
-  })
+  )
 }
 
 /**
- * Map and flatten stream chunks
+ * Options for {@link throttle}
+ */
+export interface ThrottleOptions extends TimerOptions {
+  /** Emit the first chunk of each window. Defaults to `true` */
+  leading?: boolean
+  /** Emit the last chunk received during each window when it ends. Defaults to `false` */
+  trailing?: boolean
+}
+
+/**
+ * Emit at most one chunk per time window, dropping the others
  *
  * @category Transformation
- * @param fn - The transformation function that returns an array
- * @returns A TransformStream that applies the transformation and flattens the result
+ * @param ms - The window length in milliseconds
+ * @param options - Which chunks of each window to emit, and the clock to schedule timers with
+ * @returns A TransformStream that emits at most one chunk per window
  * @example
  * ```ts
- * const stream = readable.pipeThrough(flatMap(word => word.split('')));
+ * const stream = positions.pipeThrough(throttle(100, { trailing: true }));
  * ```
  */
-export function flatMap<T, R>(
-  fn: (chunk: T) => SyncOrAsync<R[]>
-): TransformStream<T, R> {
-  const mapper = map<T, R[]>(fn)
-  const flattener = flatten<R>()
-  mapper.readable.pipeThrough(flattener)
-  return {
-    readable: flattener.readable,
-    writable: mapper.writable
+export function throttle<T>(
+  ms: number,
+  {
+    leading = true,
+    trailing = false,
+    clock = systemClock,
+    writableStrategy,
+    readableStrategy
+  }: ThrottleOptions & StrategyOptions<T> = {}
+): TransformStream<T, T> {
+  let timer: unknown
+  let pending: { chunk: T } | undefined
+
+  function startWindow(controller: TransformStreamDefaultController<T>) {
+    timer = clock.setTimeout(() => {
+      timer = undefined
+      if (pending) {
+        controller.enqueue(pending.chunk)
+        pending = undefined
+        startWindow(controller)
+      }
+    }, ms)
   }
+
+  function clearTimer() {
+    if (timer !== undefined) {
+      clock.clearTimeout(timer)
+      timer = undefined
+    }
+  }
+
+  return new TransformStream<T, T>(
+    cancellable({
+      transform(chunk, controller) {
+        if (timer !== undefined) {
+          if (trailing) {
+            pending = { chunk }
+          }
+          return
+        }
+
+        if (leading) {
+          controller.enqueue(chunk)
+        } else if (trailing) {
+          pending = { chunk }
+        }
+        startWindow(controller)
+      },
+      flush(controller) {
+        clearTimer()
+        if (pending) {
+          controller.enqueue(pending.chunk)
+        }
+      },
+      cancel: clearTimer
+    }),
+    writableStrategy,
+    readableStrategy
+  )
 }
 
 /**
- * Flatten a stream of arrays into individual chunks
+ * Error the stream if the source does not send a chunk in time
+ *
+ * The timer only runs while the output wants a chunk and waits for the
+ * source: it starts when the stream is created or read, and stops as soon as
+ * the next chunk arrives, so a slow consumer never causes a timeout. The
+ * stream errors with a {@link TimeoutError} telling the index of the missing
+ * chunk, cancelling the source.
  *
  * @category Transformation
- * @returns A TransformStream that flattens arrays into individual chunks
+ * @param ms - The maximum time in milliseconds to wait for each chunk
+ * @param options - The clock to schedule timers with
+ * @returns A TransformStream that errors when the source stalls
  * @example
  * ```ts
- * const stream = readable.pipeThrough(flatten());
- * // If readable emits [[1, 2], [3, 4]], the result will be [1, 2, 3, 4]
+ * const stream = response.body.pipeThrough(timeout(30_000));
  * ```
  */
-export function flatten<T>(): TransformStream<T[], T> {
-  return new TransformStream({
-    transform(chunk, controller) {
-      chunk.forEach(item => {
-        controller.enqueue(item)
-      })
+export function timeout<T>(
+  ms: number,
+  {
+    clock = systemClock,
+    writableStrategy,
+    readableStrategy
+  }: TimerOptions & StrategyOptions<T> = {}
+): TransformStream<T, T> {
+  let output!: ReadableStreamDefaultController<T>
+  let input!: WritableStreamDefaultController
+  let timer: unknown
+  let index = 0
+  let done = false
+  let onDemand: (() => void) | undefined
+
+  function clearTimer() {
+    if (timer !== undefined) {
+      clock.clearTimeout(timer)
+      timer = undefined
     }
-  })
+  }
+
+  function wake() {
+    onDemand?.()
+    onDemand = undefined
+  }
+
+  function stop() {
+    done = true
+    clearTimer()
+    wake()
+  }
+
+  function startTimer() {
+    clearTimer()
+    if (done) return
+    timer = clock.setTimeout(() => {
+      timer = undefined
+      const error = new TimeoutError(`No chunk received within ${ms}ms`, {
+        operator: 'timeout',
+        index
+      })
+      stop()
+      output.error(error)
+      input.error(error)
+    }, ms)
+  }
+
+  const readable = new ReadableStream<T>(
+    {
+      start(controller) {
+        output = controller
+      },
+      // The output wants a chunk, which the source now has to send in time
+      pull() {
+        wake()
+        startTimer()
+      },
+      cancel(reason) {
+        stop()
+        input.error(reason)
+      }
+    },
+    readableStrategy
+  )
+
+  const writable = new WritableStream<T>(
+    {
+      start(controller) {
+        input = controller
+      },
+      async write(chunk) {
+        clearTimer()
+        output.enqueue(chunk)
+        index++
+        // Hold the source back until the output wants more
+        if (output.desiredSize! <= 0) {
+          await new Promise<void>(resolve => (onDemand = resolve))
+        }
+      },
+      close() {
+        stop()
+        output.close()
+      },
+      abort(reason) {
+        stop()
+        output.error(reason)
+      }
+    },
+    writableStrategy
+  )
+
+  return { readable, writable }
 }
 
 /**
- * Create a ReadableStream from an iterable
+ * Create a ReadableStream that emits `0` after a delay and closes
  *
  * @category Stream Creation
- * @param iterable - The iterable or async iterable to convert to a stream
- * @returns A ReadableStream that emits items from the iterable
+ * @param ms - The delay in milliseconds
+ * @param options - The clock to schedule the timer with, and a signal aborting the stream
+ * @returns A ReadableStream that emits a single `0` once the delay has elapsed
  * @example
  * ```ts
- * const stream = fromIterable([1, 2, 3]);
- * // or
- * const stream = fromIterable(asyncGenerator());
+ * const stream = race(response, timer(5000));
  * ```
  */
-export function fromIterable<T>(
-  iterable: Iterable<T> | AsyncIterable<T>
-): ReadableStream<T> {
-  return new ReadableStream<T>({
-    async start(controller) {
-      try {
-        for await (const item of iterable) {
-          controller.enqueue(item)
+export function timer(
+  ms: number,
+  { clock = systemClock, signal }: TimerOptions & SignalOptions = {}
+): ReadableStream<number> {
+  let handle: unknown
+
+  return abortableStream<number>(
+    {
+      start(controller) {
+        handle = clock.setTimeout(() => {
+          handle = undefined
+          controller.enqueue(0)
+          controller.close()
+        }, ms)
+      },
+      cancel() {
+        if (handle !== undefined) {
+          clock.clearTimeout(handle)
         }
-        controller.close()
-      } catch (error) {
-        controller.error(error)
       }
-    }
-  })
+    },
+    signal
+  )
 }
 
 /**
- * Create a ReadableStream that emits values at specified intervals
+ * Collect all stream chunks into an array
  *
- * @category Stream Creation
- * @param period - The interval in milliseconds between emissions
- * @returns A ReadableStream that emits incrementing numbers at the specified interval
+ * @category Consumption
+ * @param stream - The readable stream to collect
+ * @param options - The abort signal and the maximum number of chunks to collect
+ * @returns A promise that resolves to an array of all chunks
  * @example
  * ```ts
- * const stream = interval(1000); // Emits 0, 1, 2, ... every second
+ * const result = await toArray(readable);
+ * console.log(result); // [1, 2, 3, ...]
  * ```
  */
-export function interval(period: number): ReadableStream<number> {
-  let counter = 0
-
-  return new ReadableStream<number>({
-    start(controller) {
-      const id = setInterval(() => {
-        controller.enqueue(counter++)
-      }, period)
-
-      return () => {
-        clearInterval(id)
-      }
-    }
-  })
+export async function toArray<T>(
+  stream: ReadableStream<T>,
+  options?: ConsumeOptions
+): Promise<T[]> {
+  const array: T[] = []
+  await consume(
+    'toArray',
+    stream,
+    chunk => {
+      array.push(chunk)
+    },
+    options
+  )
+  return array
 }
 
 /**
- * Map function for transforming stream chunks
+ * Concatenate a stream of byte chunks into a single buffer
  *
- * @category Transformation
- * @param fn - The transformation function to apply to each chunk
- * @returns A TransformStream that applies the transformation
+ * @category Consumption
+ * @param stream - The readable stream of bytes
+ * @param options - The abort signal and the maximum number of chunks to read
+ * @returns A promise that resolves to all the bytes of the stream
  * @example
  * ```ts
- * const stream = readable.pipeThrough(map(x => x * 2));
+ * const bytes = await toBytes(response.body);
  * ```
  */
-export function map<T, R>(
-  fn: (chunk: T) => SyncOrAsync<R>
-): TransformStream<T, R> {
-  return new TransformStream({
-    async transform(chunk, controller) {
-      controller.enqueue(await fn(chunk))
-    }
-  })
+export async function toBytes(
+  stream: ReadableStream<Uint8Array>,
+  options?: ConsumeOptions
+): Promise<Uint8Array> {
+  return joinBytes(await toArray(stream, options))
 }
 
 /**
- * Merge multiple streams into a single stream
+ * Group the chunks of a stream by key
  *
- * @category Combination
- * @param streams - The streams to merge
- * @returns A ReadableStream that emits chunks from all input streams
+ * @category Consumption
+ * @param stream - The readable stream to group
+ * @param keyFn - The function computing the key of each chunk
+ * @param options - The abort signal and the maximum number of chunks to read
+ * @returns A promise that resolves to a Map from each key to its chunks, in stream order
  * @example
  * ```ts
- * const mergedStream = merge(stream1, stream2, stream3);
+ * const byCountry = await toGroups(users, user => user.country);
  * ```
  */
-export function merge<T>(...streams: ReadableStream<T>[]): ReadableStream<T> {
-  return new ReadableStream<T>({
-    async start(controller) {
-      try {
-        await Promise.all(
-          streams.map(async stream => {
-            const reader = stream.getReader()
-            try {
-              while (true) {
-                const { done, value } = await reader.read()
-                if (done) break
-                controller.enqueue(value)
-              }
-            } finally {
-              reader.releaseLock()
-            }
-          })
-        )
-        controller.close()
-      } catch (error) {
-        controller.error(error)
+export async function toGroups<T, K>(
+  stream: ReadableStream<T>,
+  keyFn: (chunk: T) => SyncOrAsync<K>,
+  options?: ConsumeOptions
+): Promise<Map<K, T[]>> {
+  const groups = new Map<K, T[]>()
+  await consume(
+    'toGroups',
+    stream,
+    async chunk => {
+      const key = await keyFn(chunk)
+      const group = groups.get(key)
+      if (group) {
+        group.push(chunk)
+      } else {
+        groups.set(key, [chunk])
       }
-    }
-  })
+    },
+    options
+  )
+  return groups
 }
 
 /**
- * Create a TransformStream that reduces all values to a single value
+ * Collect the chunks of a stream into a Map
  *
- * @category Transformation
- * @param reducer - The reducer function to apply to each chunk
- * @param initialValue - The initial value
- * @returns A TransformStream that emits the final reduced value when the stream closes
+ * When several chunks have the same key, the last one wins.
+ *
+ * @category Consumption
+ * @param stream - The readable stream to collect
+ * @param keyFn - The function computing the key of each chunk
+ * @param valueFn - The function computing the value of each chunk. Defaults to the chunk itself
+ * @param options - The abort signal and the maximum number of chunks to read
+ * @returns A promise that resolves to the Map of every key to its value
  * @example
  * ```ts
- * // Sum all numbers in a stream
- * const stream = readable.pipeThrough(reduce((a, b) => a + b));
- * const [sum] = await toArray(stream); // Gets the single reduced value
+ * const usersById = await toMap(users, user => user.id);
  * ```
  */
-export function reduce<T, R>(
-  reducer: (accumulator: R, chunk: T) => SyncOrAsync<R>,
-  initialValue: R
-): TransformStream<T, R> {
-  let accumulator: R | undefined
-
-  return new TransformStream<T, R>({
-    async transform(chunk) {
-      accumulator = await reducer(accumulator ?? initialValue, chunk)
+export async function toMap<T, K, V = T>(
+  stream: ReadableStream<T>,
+  keyFn: (chunk: T) => SyncOrAsync<K>,
+  valueFn: (chunk: T) => SyncOrAsync<V> = chunk => chunk as unknown as V,
+  options?: ConsumeOptions
+): Promise<Map<K, V>> {
+  const map = new Map<K, V>()
+  await consume(
+    'toMap',
+    stream,
+    async chunk => {
+      map.set(await keyFn(chunk), await valueFn(chunk))
     },
-    flush(controller) {
-      if (accumulator !== undefined) {
-        controller.enqueue(accumulator)
-      }
-    }
-  })
+    options
+  )
+  return map
 }
 
 /**
- * Create a TransformStream that produces a stream of accumulated values
+ * Decode a stream of text chunks into a single string
  *
- * @category Transformation
- * @param scanner - The scanner function to apply to each chunk
- * @param initialValue - The initial value for the scan
- * @returns A TransformStream that emits each intermediate accumulated value
+ * @category Consumption
+ * @param stream - The readable stream of strings or UTF-8 bytes
+ * @param options - The abort signal and the maximum number of chunks to read
+ * @returns A promise that resolves to the whole text of the stream
  * @example
  * ```ts
- * // Calculate running sum
- * const stream = readable.pipeThrough(scan((acc, x) => acc + x, 0));
- * // If readable emits [1, 2, 3], the result will be [1, 3, 6]
+ * const html = await toString(response.body);
  * ```
  */
-export function scan<T, R>(
-  scanner: (accumulator: R, chunk: T) => SyncOrAsync<R>,
-  initialValue: R
-): TransformStream<T, R> {
-  let accumulator = initialValue
-  return new TransformStream<T, R>({
-    async transform(chunk, controller) {
-      accumulator = await scanner(accumulator, chunk)
-      controller.enqueue(accumulator)
-    }
-  })
+export async function toString(
+  stream: ReadableStream<TextChunk>,
+  options?: ConsumeOptions
+): Promise<string> {
+  const decoder = textDecoder()
+  let text = ''
+  await consume(
+    'toString',
+    stream,
+    chunk => {
+      text += decoder.decode(chunk)
+    },
+    options
+  )
+  return text + decoder.end()
 }
 
 /**
- * Skip a number of chunks from the beginning of a stream
+ * Group chunks into windows of a fixed number of chunks
+ *
+ * A new window starts every `slide` chunks and is emitted once it holds `size`
+ * chunks, so windows overlap when `slide` is smaller than `size` and chunks
+ * are skipped when it is larger. Incomplete windows are emitted when the source
+ * closes.
  *
  * @category Transformation
- * @param count - The number of chunks to skip
- * @returns A TransformStream that skips the specified number of chunks
+ * @param size - The number of chunks in each window
+ * @param slide - The number of chunks between the starts of two windows. Defaults to `size`
+ * @param options - The queuing strategies of the operator
+ * @returns A TransformStream that emits each window as an array
  * @example
  * ```ts
- * const stream = readable.pipeThrough(skip(2));
- * // The first 2 chunks will be skipped
+ * const stream = readable.pipeThrough(windowCount(3, 1));
+ * // If readable emits [1, 2, 3, 4], the result will be [[1, 2, 3], [2, 3, 4], [3, 4], [4]]
  * ```
  */
-export function skip<T>(count: number): TransformStream<T, T> {
-  let skipped = 0
+export function windowCount<T>(
+  size: number,
+  slide = size,
+  options: StrategyOptions<T, T[]> = {}
+): TransformStream<T, T[]> {
+  if (!(size >= 1) || !(slide >= 1)) {
+    throw new RangeError('size and slide must be positive numbers')
+  }
 
-  return new TransformStream({
-    transform(chunk, controller) {
-      if (skipped < count) {
-        skipped++
-        return
-      }
+  const windows: T[][] = []
+  let index = 0
 
-      controller.enqueue(chunk)
-    }
-  })
+  return new TransformStream(
+    {
+      transform(chunk, controller) {
+        if (index++ % slide === 0) {
+          windows.push([])
+        }
+        windows.forEach(window => window.push(chunk))
+        if (windows[0]?.length === size) {
+          controller.enqueue(windows.shift()!)
+        }
+      },
+      flush(controller) {
+        windows.forEach(window => controller.enqueue(window))
+      }
+    },
+    options.writableStrategy,
+    options.readableStrategy
+  )
 }
 
 /**
- * Tap function for side effects without modifying the stream
+ * Reduce each window of a stream to a single value
  *
  * @category Transformation
- * @param fn - The function to execute for each chunk (for side effects)
- * @returns A TransformStream that passes chunks unchanged after executing the function
+ * @param window - A windowing transform such as {@link windowCount}, {@link windowTime} or {@link sessionWindow}
+ * @param reducer - A function that combines the accumulator with each chunk of the window
+ * @param initialValue - The accumulator each window starts from
+ * @param options - A signal aborting the reducer
+ * @returns A TransformStream that emits the reduced value of each window
  * @example
  * ```ts
- * const stream = readable.pipeThrough(tap(x => console.log(`Processing: ${x}`)));
+ * const perMinute = requests.pipeThrough(
+ *   windowReduce(windowTime(60_000), count => count + 1, 0)
+ * );
  * ```
  */
-export function tap<T>(
-  fn: (chunk: T) => SyncOrAsync<void>
-): TransformStream<T, T> {
-  return new TransformStream({
-    async transform(chunk, controller) {
-      await fn(chunk)
-      controller.enqueue(chunk)
-    }
-  })
+export function windowReduce<T, R>(
+  window: TransformStream<T, T[]>,
+  reducer: (accumulator: R, chunk: T, signal: AbortSignal) => SyncOrAsync<R>,
+  initialValue: R,
+  options: SignalOptions = {}
+): TransformStream<T, R> {
+  return compose(
+    window,
+    map(async (chunks: T[], signal) => {
+      let accumulator = initialValue
+      for (const chunk of chunks) {
+        accumulator = await reducer(accumulator, chunk, signal)
+      }
+      return accumulator
+    }, options)
+  )
 }
 
 /**
- * Limit the number of chunks from a stream
+ * Group chunks into windows of a fixed duration
+ *
+ * Windows are aligned on multiples of `slide` milliseconds and last `ms`
+ * milliseconds, so they overlap when `slide` is smaller than `ms`. Without a
+ * `timestamp` extractor, a window is emitted as soon as it ends. With one, time
+ * is the event time: a window is emitted once the latest timestamp seen is
+ * `allowedLateness` past its end, and later chunks for it are dropped. Empty
+ * windows are never emitted, and open windows are emitted when the source
+ * closes.
  *
  * @category Transformation
- * @param limit - The maximum number of chunks to pass through
- * @returns A TransformStream that limits the number of chunks
+ * @param ms - The duration of each window in milliseconds
+ * @param slide - The time in milliseconds between the starts of two windows. Defaults to `ms`
+ * @param options - The event time extractor and allowed lateness
+ * @returns A TransformStream that emits each window as an array
  * @example
  * ```ts
- * const stream = readable.pipeThrough(take(3));
- * // Only the first 3 chunks will pass through
+ * const stream = readings.pipeThrough(
+ *   windowTime(60_000, 10_000, { timestamp: reading => reading.time })
+ * );
+ * // Emits the readings of the last minute every 10 seconds
  * ```
  */
-export function take<T>(limit: number): TransformStream<T, T> {
-  let count = 0
+export function windowTime<T>(
+  ms: number,
+  slide = ms,
+  {
+    timestamp,
+    allowedLateness = 0,
+    clock = systemClock,
+    writableStrategy,
+    readableStrategy
+  }: WindowOptions<T> = {}
+): TransformStream<T, T[]> {
+  if (!(ms > 0) || !(slide > 0)) {
+    throw new RangeError('ms and slide must be positive numbers')
+  }
 
-  return new TransformStream({
-    transform(chunk, controller) {
-      if (count < limit) {
-        controller.enqueue(chunk)
-        count++
-      }
+  const windows = new Map<number, T[]>()
+  let watermark = -Infinity
+  let timer: unknown
 
-      if (count >= limit) {
-        controller.terminate()
+  function emitUntil(
+    controller: TransformStreamDefaultController<T[]>,
+    until: number
+  ) {
+    const ended = [...windows.keys()]
+      .filter(start => start + ms <= until)
+      .sort((a, b) => a - b)
+    ended.forEach(start => {
+      controller.enqueue(windows.get(start)!)
+      windows.delete(start)
+    })
+  }
+
+  function schedule(controller: TransformStreamDefaultController<T[]>) {
+    clock.clearTimeout(timer)
+    if (windows.size === 0) return
+    const end = Math.min(...windows.keys()) + ms
+    timer = clock.setTimeout(() => {
+      emitUntil(controller, clock.now())
+      schedule(controller)
+    }, end - clock.now())
+  }
+
+  return new TransformStream<T, T[]>(
+    cancellable({
+      transform(chunk, controller) {
+        const time = timestamp ? timestamp(chunk) : clock.now()
+        const latest = Math.floor(time / slide) * slide
+        for (let start = latest; start > time - ms; start -= slide) {
+          if (start + ms <= watermark) break
+          const window = windows.get(start)
+          if (window) {
+            window.push(chunk)
+          } else {
+            windows.set(start, [chunk])
+          }
+        }
+
+        if (timestamp) {
+          watermark = Math.max(watermark, time - allowedLateness)
+          emitUntil(controller, watermark)
+        } else {
+          schedule(controller)
+        }
+      },
+      flush(controller) {
+        clock.clearTimeout(timer)
+        emitUntil(controller, Infinity)
+      },
+      cancel() {
+        clock.clearTimeout(timer)
       }
-    }
-  })
+    }),
+    writableStrategy,
+    readableStrategy
+  )
 }
 
 /**
- * Collect all stream chunks into an array
+ * Combine streams chunk by chunk into tuples
  *
- * @category Consumption
- * @param stream - The readable stream to collect
- * @returns A promise that resolves to an array of all chunks
+ * The result closes as soon as the shortest stream is done, cancelling the
+ * others.
+ *
+ * @category Combination
+ * @param streams - The streams to zip
+ * @returns A ReadableStream of tuples with one chunk from each stream
  * @example
  * ```ts
- * const result = await toArray(readable);
- * console.log(result); // [1, 2, 3, ...]
+ * const stream = zip(fromIterable([1, 2, 3]), fromIterable(['a', 'b']));
+ * // ReadableStream<[number, string]> emitting [1, 'a'], [2, 'b']
  * ```
  */
-export async function toArray<T>(stream: ReadableStream<T>): Promise<T[]> {
-  const array: T[] = []
-  await stream.pipeTo(
-    new WritableStream<T>({
-      write(chunk: T) {
-        array.push(chunk)
+export function zip<S extends ReadableStream<unknown>[]>(
+  ...streams: S
+): ReadableStream<StreamValues<S>> {
+  const readers = streams.map(stream => stream.getReader())
+
+  return new ReadableStream<StreamValues<S>>({
+    async pull(controller) {
+      let values: unknown[] | undefined
+      try {
+        values = await new Promise<unknown[] | undefined>((resolve, reject) => {
+          const values: unknown[] = new Array(readers.length)
+          let remaining = readers.length
+          if (remaining === 0) {
+            resolve(undefined)
+          }
+          readers.forEach((reader, index) => {
+            reader.read().then(({ done, value }) => {
+              if (done) {
+                resolve(undefined)
+                return
+              }
+              values[index] = value
+              if (--remaining === 0) {
+                resolve(values)
+              }
+            }, reject)
+          })
+        })
+      } catch (error) {
+        await cancelReaders(readers, error)
+        throw error
       }
-    })
-  )
-  return array
+
+      if (values) {
+        controller.enqueue(values as StreamValues<S>)
+      } else {
+        controller.close()
+        await cancelReaders(readers)
+      }
+    },
+    async cancel(reason) {
+      await cancelReaders(readers, reason)
+    }
+  })
 }
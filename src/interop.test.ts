@@ -0,0 +1,301 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { PassThrough, Writable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { describe, it, expect } from 'vitest'
+
+import { fromIterable, toArray } from '.'
+import {
+  fileCheckpointStore,
+  fromBlob,
+  fromNodeWritable,
+  toAsyncIterable,
+  toBlob,
+  toNodeReadable,
+  toResponse
+} from './interop'
+
+describe('Interop', () => {
+  const delay = (ms: number) =>
+    new Promise<void>(resolve => setTimeout(resolve, ms))
+
+  function pullCounter(count: number) {
+    const cancelled: unknown[] = []
+    let pulls = 0
+    const stream = new ReadableStream<number>(
+      {
+        pull(controller) {
+          if (pulls === count) {
+            controller.close()
+          } else {
+            controller.enqueue(pulls++)
+          }
+        },
+        cancel(reason) {
+          cancelled.push(reason)
+        }
+      },
+      { highWaterMark: 0 }
+    )
+    return {
+      stream,
+      cancelled,
+      get pulls() {
+        return pulls
+      }
+    }
+  }
+
+  describe('fileCheckpointStore', () => {
+    it('should persist offsets by key across instances', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'checkpoint-'))
+      try {
+        const path = join(directory, 'offsets.json')
+        const store = fileCheckpointStore<number | string>(path)
+        expect(await store.load('a')).toBeUndefined()
+
+        await Promise.all([store.save('a', 1), store.save('b', 'cursor')])
+        await store.save('a', 2)
+
+        const reopened = fileCheckpointStore<number | string>(path)
+        expect(await reopened.load('a')).toBe(2)
+        expect(await reopened.load('b')).toBe('cursor')
+        expect(await readdir(directory)).toStrictEqual(['offsets.json'])
+      } finally {
+        await rm(directory, { recursive: true })
+      }
+    })
+  })
+
+  describe('fromBlob', () => {
+    it('should read the blob in chunks', async () => {
+      const blob = new Blob(['hello ', 'world'])
+      const chunks = await toArray(fromBlob(blob, { chunkSize: 4 }))
+      expect(chunks.map(chunk => chunk.byteLength)).toStrictEqual([4, 4, 3])
+      const decoder = new TextDecoder()
+      expect(chunks.map(chunk => decoder.decode(chunk)).join('')).toBe(
+        'hello world'
+      )
+    })
+
+    it('should reject an invalid chunk size', () => {
+      expect(() => fromBlob(new Blob([]), { chunkSize: 0 })).toThrow(RangeError)
+    })
+  })
+
+  describe('fromNodeWritable', () => {
+    it('should write every chunk and wait for the writable to finish', async () => {
+      const written: string[] = []
+      let finished = false
+      const writable = new Writable({
+        highWaterMark: 1,
+        objectMode: true,
+        write(chunk, _encoding, callback) {
+          written.push(chunk)
+          setTimeout(callback, 1)
+        },
+        final(callback) {
+          finished = true
+          callback()
+        }
+      })
+      await fromIterable(['a', 'b', 'c']).pipeTo(fromNodeWritable(writable))
+      expect(written).toStrictEqual(['a', 'b', 'c'])
+      expect(finished).toBe(true)
+      expect(writable.listenerCount('error')).toBe(0)
+      expect(writable.listenerCount('close')).toBe(0)
+    })
+
+    it('should apply backpressure until the writable drains', async () => {
+      const source = pullCounter(10)
+      const callbacks: (() => void)[] = []
+      const writable = new Writable({
+        highWaterMark: 2,
+        objectMode: true,
+        write(_chunk, _encoding, callback) {
+          callbacks.push(callback)
+        }
+      })
+      const done = source.stream.pipeTo(fromNodeWritable(writable))
+      await delay(5)
+      expect(source.pulls).toBeLessThan(5)
+
+      while (callbacks.length > 0) {
+        callbacks.shift()!()
+        await delay(1)
+      }
+      await done
+      expect(source.pulls).toBe(10)
+    })
+
+    it('should error the stream when the writable errors', async () => {
+      const writable = new Writable({
+        write(_chunk, _encoding, callback) {
+          callback(new Error('disk full'))
+        }
+      })
+      await expect(
+        fromIterable(['a', 'b']).pipeTo(fromNodeWritable(writable))
+      ).rejects.toThrow('disk full')
+    })
+
+    it('should destroy the writable when the stream aborts', async () => {
+      const writable = new PassThrough()
+      const stream = fromNodeWritable<string>(writable)
+      const error = new Error('stop')
+      await stream.abort(error)
+      expect(writable.destroyed).toBe(true)
+      expect(writable.errored).toBe(error)
+      expect(writable.listenerCount('error')).toBe(0)
+      expect(writable.listenerCount('close')).toBe(0)
+    })
+  })
+
+  describe('toAsyncIterable', () => {
+    it('should iterate over every chunk', async () => {
+      const actual: number[] = []
+      for await (const n of toAsyncIterable(fromIterable([1, 2, 3]))) {
+        actual.push(n)
+      }
+      expect(actual).toStrictEqual([1, 2, 3])
+    })
+
+    it('should cancel the stream when the loop exits early', async () => {
+      const source = pullCounter(Infinity)
+      for await (const n of toAsyncIterable(source.stream)) {
+        if (n === 1) break
+      }
+      expect(source.cancelled).toHaveLength(1)
+      expect(source.stream.locked).toBe(false)
+    })
+
+    it('should cancel the stream when return is called', async () => {
+      const source = pullCounter(Infinity)
+      const iterator = toAsyncIterable(source.stream)
+      await iterator.next()
+      await iterator.return()
+      expect(source.cancelled).toHaveLength(1)
+    })
+
+    it('should cancel the stream when return is called before next', async () => {
+      const source = pullCounter(Infinity)
+      const iterator = toAsyncIterable(source.stream)
+      expect(await iterator.return()).toStrictEqual({
+        done: true,
+        value: undefined
+      })
+      expect(source.cancelled).toHaveLength(1)
+      expect(source.stream.locked).toBe(false)
+      expect(await iterator.next()).toStrictEqual({
+        done: true,
+        value: undefined
+      })
+    })
+
+    it('should cancel the stream while a next call is pending', async () => {
+      const cancelled: unknown[] = []
+      const stream = new ReadableStream<number>({
+        cancel(reason) {
+          cancelled.push(reason)
+        }
+      })
+      const iterator = toAsyncIterable(stream)
+      const next = iterator.next()
+      await iterator.return()
+      expect(cancelled).toHaveLength(1)
+      expect(await next).toStrictEqual({ done: true, value: undefined })
+      expect(stream.locked).toBe(false)
+    })
+
+    it('should only release the lock with preventCancel', async () => {
+      const source = pullCounter(Infinity)
+      const iterator = toAsyncIterable(source.stream, { preventCancel: true })
+      await iterator.next()
+      await iterator.return()
+      expect(source.cancelled).toHaveLength(0)
+      expect(source.stream.locked).toBe(false)
+    })
+
+    it('should throw the error of the stream', async () => {
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.error(new Error('boom'))
+        }
+      })
+      await expect(toAsyncIterable(stream).next()).rejects.toThrow('boom')
+    })
+  })
+
+  describe('toBlob', () => {
+    it('should collect text and bytes into a blob', async () => {
+      const stream = fromIterable(['a', new TextEncoder().encode('b')])
+      const blob = await toBlob(stream, { type: 'text/plain' })
+      expect(blob.type).toBe('text/plain')
+      expect(await blob.text()).toBe('ab')
+    })
+  })
+
+  describe('toNodeReadable', () => {
+    it('should emit every chunk', async () => {
+      const readable = toNodeReadable(fromIterable([1, 2, 3]), {
+        objectMode: true
+      })
+      expect(await readable.toArray()).toStrictEqual([1, 2, 3])
+    })
+
+    it('should only read the stream when the readable wants data', async () => {
+      const source = pullCounter(100)
+      const readable = toNodeReadable(source.stream, {
+        objectMode: true,
+        highWaterMark: 2
+      })
+      readable.pause()
+      readable.read(0)
+      await delay(5)
+      expect(source.pulls).toBe(2)
+      readable.destroy()
+    })
+
+    it('should destroy the readable when the stream errors', async () => {
+      const stream = new ReadableStream({
+        pull(controller) {
+          controller.error(new Error('boom'))
+        }
+      })
+      await expect(
+        pipeline(toNodeReadable(stream), new PassThrough().resume())
+      ).rejects.toThrow('boom')
+    })
+
+    it('should cancel the stream when the readable is destroyed', async () => {
+      const source = pullCounter(Infinity)
+      const readable = toNodeReadable(source.stream, { objectMode: true })
+      const error = new Error('stop')
+      readable.destroy(error)
+      await expect(readable.toArray()).rejects.toBe(error)
+      expect(source.cancelled).toStrictEqual([error])
+    })
+  })
+
+  describe('toResponse', () => {
+    it('should stream text and bytes as the body', async () => {
+      const stream = fromIterable(['hé', new TextEncoder().encode('llo')])
+      const response = toResponse(stream, {
+        headers: { 'Content-Type': 'text/plain' }
+      })
+      expect(response.headers.get('Content-Type')).toBe('text/plain')
+      expect(await response.text()).toBe('héllo')
+    })
+
+    it('should error the body when the stream errors', async () => {
+      const stream = new ReadableStream<string>({
+        start(controller) {
+          controller.enqueue('partial')
+          controller.error(new Error('boom'))
+        }
+      })
+      await expect(toResponse(stream).text()).rejects.toThrow()
+    })
+  })
+})
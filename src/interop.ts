@@ -0,0 +1,417 @@
+import { readFile, rename, writeFile } from 'node:fs/promises'
+import { Readable, type Writable } from 'node:stream'
+
+import {
+  fromIterable,
+  map,
+  toArray,
+  type CheckpointStore,
+  type ConsumeOptions,
+  type SignalOptions,
+  type TextChunk
+} from './index'
+
+/**
+ * Options for {@link toNodeReadable}
+ */
+export interface NodeReadableOptions {
+  /** Emit any value instead of bytes and strings. Defaults to `false` */
+  objectMode?: boolean
+  /** The high water mark of the Readable, in bytes or in chunks in object mode */
+  highWaterMark?: number
+}
+
+/**
+ * Create a Node.js `Readable` from a ReadableStream
+ *
+ * The stream is only read while the Readable wants more data. An error of the
+ * stream destroys the Readable with that error, and destroying the Readable
+ * cancels the stream with the error it was destroyed with, if any.
+ *
+ * @category Interop
+ * @param stream - The stream to read from
+ * @param options - The mode and high water mark of the Readable
+ * @returns A Readable that emits the chunks of the stream
+ * @example
+ * ```ts
+ * import { pipeline } from 'node:stream/promises';
+ *
+ * await pipeline(toNodeReadable(response.body), createWriteStream('out.bin'));
+ * ```
+ */
+export function toNodeReadable<T>(
+  stream: ReadableStream<T>,
+  { objectMode = false, highWaterMark }: NodeReadableOptions = {}
+): Readable {
+  const reader = stream.getReader()
+  let reading = false
+
+  return new Readable({
+    objectMode,
+    highWaterMark,
+    read() {
+      if (reading) return
+      reading = true
+      const pump = async () => {
+        try {
+          while (true) {
+            const result = await reader.read()
+            if (result.done) {
+              this.push(null)
+              return
+            }
+            if (!this.push(result.value)) return
+          }
+        } catch (error) {
+          this.destroy(error as Error)
+        } finally {
+          reading = false
+        }
+      }
+      pump()
+    },
+    destroy(error, callback) {
+      reader.cancel(error ?? undefined).then(
+        () => callback(error),
+        () => callback(error)
+      )
+    }
+  })
+}
+
+/**
+ * Create a WritableStream writing to a Node.js `Writable`
+ *
+ * Each write waits for the `drain` event once the Writable is full, so the
+ * stream applies its backpressure. An `error` event, or the Writable closing
+ * before the stream, errors the stream; aborting the stream destroys the
+ * Writable with the abort reason. Closing the stream ends the Writable and
+ * waits for it to finish. A `Duplex` works as well, its readable side being
+ * read with `fromNodeReadable`.
+ *
+ * @category Interop
+ * @param writable - The Node.js Writable to write to
+ * @returns A WritableStream writing each chunk to the Writable
+ * @example
+ * ```ts
+ * await response.body.pipeTo(fromNodeWritable(createWriteStream('out.bin')));
+ * ```
+ */
+export function fromNodeWritable<T>(writable: Writable): WritableStream<T> {
+  let failure: unknown
+  let closing = false
+
+  // Settle with the first error, or once the Writable emits `event`
+  const settled = (event: 'drain' | 'finish') =>
+    new Promise<void>((resolve, reject) => {
+      const onEvent = () => {
+        cleanup()
+        resolve()
+      }
+      const onError = (error: unknown) => {
+        cleanup()
+        reject(error)
+      }
+      const onClose = () => {
+        cleanup()
+        reject(
+          failure ?? new Error('Writable was closed before the stream ended')
+        )
+      }
+      const cleanup = () => {
+        writable.off(event, onEvent)
+        writable.off('error', onError)
+        writable.off('close', onClose)
+      }
+      writable.on(event, onEvent)
+      writable.on('error', onError)
+      writable.on('close', onClose)
+    })
+
+  let controller!: WritableStreamDefaultController
+  const onError = (error: unknown) => {
+    failure = error
+    controller.error(error)
+  }
+  const onClose = () => {
+    detach()
+    if (!closing) {
+      controller.error(
+        failure ?? new Error('Writable was closed before the stream ended')
+      )
+    }
+  }
+  const detach = () => {
+    writable.off('error', onError)
+    writable.off('close', onClose)
+  }
+
+  return new WritableStream<T>({
+    start(c) {
+      controller = c
+      writable.on('error', onError)
+      writable.on('close', onClose)
+    },
+    async write(chunk) {
+      if (failure !== undefined) throw failure
+      if (!writable.write(chunk)) {
+        await settled('drain')
+      }
+    },
+    async close() {
+      closing = true
+      const finished = settled('finish')
+      writable.end()
+      try {
+        await finished
+      } finally {
+        detach()
+      }
+    },
+    async abort(reason) {
+      closing = true
+      // Keep handling the error emitted by `destroy` until the Writable closes
+      const closed = writable.closed
+        ? Promise.resolve()
+        : new Promise(resolve => writable.once('close', resolve))
+      writable.destroy(reason instanceof Error ? reason : undefined)
+      await closed
+      detach()
+    }
+  })
+}
+
+/**
+ * Options for {@link toAsyncIterable}
+ */
+export interface AsyncIterableOptions {
+  /** Leave the stream open when the loop exits early, only releasing its lock. Defaults to `false` */
+  preventCancel?: boolean
+}
+
+/**
+ * The iterator returned by {@link toAsyncIterable}
+ */
+export interface StreamIterator<T> extends AsyncIterableIterator<
+  T,
+  void,
+  undefined
+> {
+  /** Cancel the stream, unless `preventCancel` is set, and release its lock */
+  return(): Promise<IteratorReturnResult<void>>
+}
+
+/**
+ * Iterate over a ReadableStream
+ *
+ * Breaking out of a `for await` loop, or calling `return()` on the iterator,
+ * cancels the stream unless `preventCancel` is set. Unlike an async generator,
+ * `return()` cancels the stream right away, even before the first `next()` or
+ * while a `next()` is pending, which then resolves as done. An error of the
+ * stream is thrown by the loop.
+ *
+ * @category Interop
+ * @param stream - The stream to iterate over
+ * @param options - Whether to leave the stream open when exiting early
+ * @returns An async iterator over the chunks of the stream
+ * @example
+ * ```ts
+ * for await (const line of toAsyncIterable(lines)) {
+ *   if (line === 'END') break; // cancels lines
+ * }
+ * ```
+ */
+export function toAsyncIterable<T>(
+  stream: ReadableStream<T>,
+  { preventCancel = false }: AsyncIterableOptions = {}
+): StreamIterator<T> {
+  const reader = stream.getReader()
+  let finished = false
+  let reading: Promise<unknown> | undefined
+
+  function finish() {
+    finished = true
+    reader.releaseLock()
+  }
+
+  return {
+    async next() {
+      if (finished) return { done: true, value: undefined }
+      const read = reader.read()
+      reading = read
+      try {
+        const result = await read
+        if (result.done) {
+          finish()
+          return { done: true, value: undefined }
+        }
+        return result
+      } catch (error) {
+        finish()
+        throw error
+      }
+    },
+    async return() {
+      if (!finished) {
+        finished = true
+        if (preventCancel) {
+          // Releasing the lock would reject a pending read
+          await reading?.catch(() => {})
+        } else {
+          await reader.cancel()
+        }
+        reader.releaseLock()
+      }
+      return { done: true, value: undefined }
+    },
+    [Symbol.asyncIterator]() {
+      return this
+    }
+  }
+}
+
+/**
+ * Options for {@link fromBlob}
+ */
+export interface BlobReadOptions extends SignalOptions {
+  /** The size of the chunks read from the Blob, in bytes. Defaults to `65536` */
+  chunkSize?: number
+}
+
+/**
+ * Create a ReadableStream from a `Blob` or a `File`
+ *
+ * Each chunk is only read from the Blob when the stream is pulled.
+ *
+ * @category Interop
+ * @param blob - The Blob to read
+ * @param options - The size of the chunks and a signal aborting the stream
+ * @returns A ReadableStream that emits the bytes of the Blob
+ * @example
+ * ```ts
+ * const rows = fromBlob(input.files[0])
+ *   .pipeThrough(parseCsv({ headers: true }));
+ * ```
+ */
+export function fromBlob(
+  blob: Blob,
+  { chunkSize = 65536, signal }: BlobReadOptions = {}
+): ReadableStream<Uint8Array> {
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new RangeError('chunkSize must be a positive integer')
+  }
+  async function* chunks() {
+    for (let offset = 0; offset < blob.size; offset += chunkSize) {
+      const slice = blob.slice(offset, offset + chunkSize)
+      yield new Uint8Array(await slice.arrayBuffer())
+    }
+  }
+  return fromIterable(chunks(), { signal })
+}
+
+/**
+ * Options for {@link toBlob}
+ */
+export interface BlobWriteOptions extends ConsumeOptions {
+  /** The MIME type of the Blob */
+  type?: string
+}
+
+/**
+ * Collect a stream of text or bytes into a `Blob`
+ *
+ * @category Interop
+ * @param stream - The stream to collect
+ * @param options - The MIME type of the Blob, a signal and a chunk limit
+ * @returns A promise resolving with a Blob of every chunk
+ * @example
+ * ```ts
+ * const blob = await toBlob(stringifyCsv(rows), { type: 'text/csv' });
+ * ```
+ */
+export async function toBlob(
+  stream: ReadableStream<TextChunk | Blob>,
+  { type, ...options }: BlobWriteOptions = {}
+): Promise<Blob> {
+  const parts = await toArray(stream, options)
+  return new Blob(parts as ConstructorParameters<typeof Blob>[0], { type })
+}
+
+/**
+ * Create a `Response` streaming a ReadableStream of text or bytes as its body
+ *
+ * Strings are encoded as UTF-8, and an error of the stream errors the body.
+ * The stream is only read as the body is consumed.
+ *
+ * @category Interop
+ * @param stream - The stream to send
+ * @param init - The status and headers of the response
+ * @returns A Response whose body is read from the stream
+ * @example
+ * ```ts
+ * export function GET() {
+ *   return toResponse(events.pipeThrough(encodeSSE()), {
+ *     headers: { 'Content-Type': 'text/event-stream' }
+ *   });
+ * }
+ * ```
+ */
+export function toResponse(
+  stream: ReadableStream<TextChunk>,
+  init?: ResponseInit
+): Response {
+  const encoder = new TextEncoder()
+  return new Response(
+    stream.pipeThrough(
+      map(chunk => (typeof chunk === 'string' ? encoder.encode(chunk) : chunk))
+    ),
+    init
+  )
+}
+
+/**
+ * Create a {@link CheckpointStore} saving offsets to a JSON file
+ *
+ * Offsets must be JSON-serializable. Every save rewrites the file under a
+ * temporary name and then renames it, so a crash leaves the previous
+ * offsets intact.
+ *
+ * @category Interop
+ * @param path - The file holding the offsets of every key
+ * @returns A store reading and writing the file
+ * @example
+ * ```ts
+ * const store = fileCheckpointStore<number>('./checkpoints.json');
+ * ```
+ */
+export function fileCheckpointStore<O = unknown>(
+  path: string
+): CheckpointStore<O> {
+  let writing = Promise.resolve()
+
+  async function read(): Promise<Record<string, O>> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'))
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return {}
+      throw error
+    }
+  }
+
+  return {
+    async load(key) {
+      await writing
+      return (await read())[key]
+    },
+    save(key, offset) {
+      const saved = writing.then(async () => {
+        const offsets = await read()
+        offsets[key] = offset
+        await writeFile(`${path}.tmp`, JSON.stringify(offsets))
+        await rename(`${path}.tmp`, path)
+      })
+      writing = saved.catch(() => {})
+      return saved
+    }
+  }
+}